@@ -8,6 +8,9 @@ import Index from "./pages/Index";
 import Upload from "./pages/Upload";
 import AskAI from "./pages/AskAI";
 import Predictions from "./pages/Predictions";
+import Questions from "./pages/Questions";
+import RepeatedQuestions from "./pages/RepeatedQuestions";
+import Files from "./pages/Files";
 import Notes from "./pages/Notes";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
@@ -22,6 +25,9 @@ function AppRoutes() {
       <Route path="/ask-ai" element={<AskAI />} />
       <Route path="/predictions" element={<Predictions />} />
       <Route path="/topics" element={<Predictions />} />
+      <Route path="/questions" element={<Questions />} />
+      <Route path="/repeated" element={<RepeatedQuestions />} />
+      <Route path="/files" element={<Files />} />
       <Route path="/notes" element={<Notes />} />
       <Route path="/auth" element={<Auth />} />
       <Route path="*" element={<NotFound />} />
@@ -1,7 +1,7 @@
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { BookOpen, Upload, Brain, Target, FileText, Menu, X, LogOut } from "lucide-react";
+import { BookOpen, Upload, Brain, Target, ListChecks, Repeat, FileText, Menu, X, LogOut } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -10,6 +10,8 @@ const navItems = [
   { to: "/upload", label: "Upload", icon: Upload },
   { to: "/ask-ai", label: "Ask AI", icon: Brain },
   { to: "/predictions", label: "Predictions", icon: Target },
+  { to: "/questions", label: "Questions", icon: ListChecks },
+  { to: "/repeated", label: "Repeated", icon: Repeat },
   { to: "/notes", label: "My Notes", icon: FileText },
 ];
 
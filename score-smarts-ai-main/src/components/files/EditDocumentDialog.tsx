@@ -0,0 +1,112 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { PaperMetadataForm } from "@/components/upload/PaperMetadataForm";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { paperMetadataToRow, isValidPaperMetadata, type PaperMetadata } from "@/lib/paperMetadata";
+import type { FileEntry } from "@/lib/documentFiles";
+
+interface EditDocumentDialogProps {
+  file: FileEntry | null;
+  subjects: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function EditDocumentDialog({ file, subjects, onOpenChange, onSaved }: EditDocumentDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [courseName, setCourseName] = useState("");
+  const [metadata, setMetadata] = useState<PaperMetadata | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    setTitle(file.title);
+    setCourseName(file.courseName ?? "");
+    setMetadata(file.paper ?? null);
+  }, [file]);
+
+  const handleSave = async () => {
+    if (!file) return;
+
+    if (file.table === "past_papers" && (!metadata || !isValidPaperMetadata(metadata))) {
+      toast({
+        title: "Paper details missing",
+        description: "Add a subject and a valid year",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } =
+        file.table === "syllabus"
+          ? await supabase
+              .from("syllabus")
+              .update({ title: title.trim() || file.title, course_name: courseName.trim() || null })
+              .eq("id", file.id)
+          : await supabase.from("past_papers").update(paperMetadataToRow(metadata)).eq("id", file.id);
+
+      if (error) throw error;
+      toast({ title: "File updated" });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update file",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Details</DialogTitle>
+          <DialogDescription>{file?.fileName}</DialogDescription>
+        </DialogHeader>
+
+        {file?.table === "syllabus" ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-title">Title</Label>
+              <Input id="edit-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-course">Course</Label>
+              <Input id="edit-course" value={courseName} onChange={(e) => setCourseName(e.target.value)} />
+            </div>
+          </div>
+        ) : (
+          file && metadata && (
+            <PaperMetadataForm id={file.id} metadata={metadata} subjects={subjects} onChange={setMetadata} />
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="hero" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Check, FlaskConical, Loader2, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_YEARS_HELD_OUT,
+  DEFAULT_TOP_K,
+  loadBacktests,
+  runBacktests,
+  type BacktestReport,
+} from "@/lib/predictionBacktest";
+
+interface BacktestPanelProps {
+  /** Only show this subject's report; null for all */
+  subject: string | null;
+}
+
+const YEARS_HELD_OUT_OPTIONS = [1, 2, 3];
+const TOP_K_OPTIONS = [5, 10, 15, 20];
+
+const percent = (share: number | null) => (share === null ? "—" : `${Math.round(share * 100)}%`);
+
+export function BacktestPanel({ subject }: BacktestPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reports, setReports] = useState<BacktestReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [yearsHeldOut, setYearsHeldOut] = useState(DEFAULT_YEARS_HELD_OUT);
+  const [k, setK] = useState(DEFAULT_TOP_K);
+
+  useEffect(() => {
+    if (!user) return;
+    loadBacktests(user.id)
+      .then(setReports)
+      .catch((error) => console.error("Error loading backtests:", error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const handleRun = async () => {
+    if (!user) return;
+    setRunning(true);
+    try {
+      const { results, skipped } = await runBacktests(user.id, yearsHeldOut, k);
+      setReports(await loadBacktests(user.id));
+      toast({
+        title: results.length > 0 ? `Backtested ${results.length} subject(s)` : "Nothing to backtest",
+        description:
+          skipped.length > 0
+            ? `${skipped.join(", ")} need segmented papers from more than ${yearsHeldOut} exam year(s).`
+            : undefined,
+      });
+    } catch (error) {
+      console.error("Error running backtest:", error);
+      toast({
+        title: "Error",
+        description: "Failed to run the backtest",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const shown = reports.filter(
+    (report) => !subject || report.subject.trim().toLowerCase() === subject.trim().toLowerCase()
+  );
+
+  return (
+    <Card variant="default">
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div>
+            <h3 className="font-heading font-semibold">Backtest</h3>
+            <p className="text-xs text-muted-foreground">
+              Hides every paper from each subject's latest exam years, predicts from the earlier years and checks the
+              top picks against what was actually asked.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="backtest-years-held-out" className="text-xs">Hide latest</Label>
+              <Select value={String(yearsHeldOut)} onValueChange={(value) => setYearsHeldOut(Number(value))}>
+                <SelectTrigger id="backtest-years-held-out" className="h-9 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {YEARS_HELD_OUT_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} year{option > 1 && "s"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="backtest-k" className="text-xs">Top picks</Label>
+              <Select value={String(k)} onValueChange={(value) => setK(Number(value))}>
+                <SelectTrigger id="backtest-k" className="h-9 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOP_K_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      Top {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button size="sm" className="gap-2 h-9" disabled={running} onClick={handleRun}>
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+              Run
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No backtest{subject && ` for ${subject}`} yet. Run one to see how well the predictions hold up.
+          </p>
+        ) : (
+          <Accordion type="multiple">
+            {shown.map((report) => (
+              <AccordionItem key={report.subject} value={report.subject}>
+                <AccordionTrigger className="hover:no-underline">
+                  <div className="flex flex-1 flex-col sm:flex-row sm:items-center gap-2 sm:gap-6 text-left pr-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <p className="font-medium truncate">{report.subject}</p>
+                        {report.stale && (
+                          <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                            Outdated
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs font-normal text-muted-foreground">
+                        {report.stale
+                          ? `Hid papers from ${report.heldOutYears.join(", ")} rather than whole years. Run again to update.`
+                          : `Hid ${report.heldOutYears.join(", ")} · predicted from ${report.trainingPapers} earlier paper(s)`}{" "}
+                        · {new Date(report.ranAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4 text-center">
+                      <div>
+                        <p className="font-heading font-bold text-primary">{percent(report.precisionAtK)}</p>
+                        <p className="text-xs font-normal text-muted-foreground">Precision@{report.k}</p>
+                      </div>
+                      <div>
+                        <p className="font-heading font-bold text-primary">{percent(report.recallAtK)}</p>
+                        <p className="text-xs font-normal text-muted-foreground">Recall</p>
+                      </div>
+                      <div>
+                        <p className="font-heading font-bold text-primary">{percent(report.marksCovered)}</p>
+                        <p className="text-xs font-normal text-muted-foreground">Marks covered</p>
+                      </div>
+                    </div>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-4">
+                  <ol className="space-y-1">
+                    {report.predicted.map((pick, index) => (
+                      <li key={pick.topic} className="flex items-center gap-2 text-sm">
+                        <span className="w-6 text-xs text-muted-foreground">#{index + 1}</span>
+                        {pick.asked ? (
+                          <Check className="w-4 h-4 text-success flex-shrink-0" />
+                        ) : (
+                          <X className="w-4 h-4 text-destructive flex-shrink-0" />
+                        )}
+                        <span className="flex-1 min-w-0 truncate">{pick.topic}</span>
+                        <span className="text-xs text-muted-foreground">{pick.probability}%</span>
+                      </li>
+                    ))}
+                  </ol>
+                  {report.missed.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-muted-foreground">Asked but outside the top {report.k}:</p>
+                      <div className="flex flex-wrap gap-2">
+                        {report.missed.map((topic) => (
+                          <Badge key={topic} variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                            {topic}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, GraduationCap } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_PREDICTION_PARAMETERS } from "@/lib/predictionModel";
+import {
+  computeMarksWeightage,
+  loadMarksEvidence,
+  marksStat,
+  type MarksPaper,
+  type WeightedTopic,
+} from "@/lib/marksWeightage";
+import type { TopicQuestion } from "@/lib/topicTrends";
+
+interface MarksWeightagePanelProps {
+  subject: string;
+  /** The subject's analyzed topics */
+  topics: WeightedTopic[];
+}
+
+type Level = "units" | "topics";
+
+export function MarksWeightagePanel({ subject, topics }: MarksWeightagePanelProps) {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<TopicQuestion[]>([]);
+  const [papers, setPapers] = useState<MarksPaper[]>([]);
+  const [halfLife, setHalfLife] = useState(DEFAULT_PREDICTION_PARAMETERS.recencyHalfLife);
+  const [loading, setLoading] = useState(true);
+  const [level, setLevel] = useState<Level>("units");
+  const [mastered, setMastered] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!user) return;
+    setLoading(true);
+    setMastered(new Set());
+    loadMarksEvidence(user.id, subject)
+      .then((data) => {
+        setQuestions(data.questions);
+        setPapers(data.papers);
+        setHalfLife(data.halfLife);
+      })
+      .catch((error) => console.error("Error loading marks weightage:", error))
+      .finally(() => setLoading(false));
+  }, [user, subject]);
+
+  const weightage = useMemo(
+    () => computeMarksWeightage(topics, papers, questions, halfLife),
+    [topics, papers, questions, halfLife]
+  );
+  const rows = level === "units" && weightage.units.length > 0 ? weightage.units : weightage.topics;
+
+  // Union of the chosen rows' topics, so a question shared by two of them counts once
+  const masteredStat = useMemo(() => {
+    const topicIds = new Set(rows.filter((row) => mastered.has(row.key)).flatMap((row) => row.topicIds));
+    return topicIds.size > 0 ? marksStat(topicIds, papers, questions, halfLife) : null;
+  }, [rows, mastered, papers, questions, halfLife]);
+
+  const heaviest = Math.max(1, ...rows.map((row) => row.expected));
+  const share = (marks: number) =>
+    weightage.paperMarks ? ` (${Math.round((marks / weightage.paperMarks) * 100)}%)` : "";
+
+  const toggle = (key: string, checked: boolean) =>
+    setMastered((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const chooseLevel = (value: string) => {
+    setLevel(value as Level);
+    setMastered(new Set());
+  };
+
+  return (
+    <Card variant="default">
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h3 className="font-heading font-semibold">Marks weightage · {subject}</h3>
+            <p className="text-xs text-muted-foreground">
+              Average marks per paper, their spread, and what the next paper is likely to give
+              {weightage.paperMarks !== null && ` out of about ${weightage.paperMarks}`}.
+            </p>
+          </div>
+          {weightage.units.length > 0 && (
+            <Tabs value={level} onValueChange={chooseLevel}>
+              <TabsList>
+                <TabsTrigger value="units">Units</TabsTrigger>
+                <TabsTrigger value="topics">Topics</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : papers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No analyzed papers for {subject} yet.</p>
+        ) : (
+          <>
+            {/* Mastery Summary */}
+            <div className="flex items-start gap-3 p-4 rounded-lg bg-primary/5 border border-primary/20">
+              <GraduationCap className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+              <div className="flex-1 text-sm">
+                {masteredStat ? (
+                  <>
+                    <p>
+                      Mastering {mastered.size === 1 ? "this" : `these ${mastered.size}`}{" "}
+                      {level === "units" && weightage.units.length > 0 ? "unit(s)" : "topic(s)"} secures about{" "}
+                      <span className="font-semibold text-primary">
+                        {masteredStat.expected} marks{share(masteredStat.expected)}
+                      </span>{" "}
+                      in the next paper.
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Past papers gave them {masteredStat.mean} ± {masteredStat.stdDev} marks.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">Tick what you plan to master to see the marks it secures.</p>
+                )}
+              </div>
+              {mastered.size > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => setMastered(new Set())}>
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            {/* Weightage Table */}
+            <div className="space-y-1">
+              <div className="hidden sm:grid grid-cols-[auto_1fr_6rem_6rem_8rem] gap-3 px-2 text-xs text-muted-foreground">
+                <span className="w-4" />
+                <span>{level === "units" && weightage.units.length > 0 ? "Unit" : "Topic"}</span>
+                <span className="text-right">Avg ± SD</span>
+                <span className="text-right">Variance</span>
+                <span className="text-right">Expected next</span>
+              </div>
+              {rows.map((row) => (
+                <label
+                  key={row.key}
+                  className="grid grid-cols-[auto_1fr_auto] sm:grid-cols-[auto_1fr_6rem_6rem_8rem] gap-3 items-center p-2 rounded-lg hover:bg-muted/50 cursor-pointer text-sm"
+                >
+                  <Checkbox checked={mastered.has(row.key)} onCheckedChange={(checked) => toggle(row.key, checked === true)} />
+                  <div className="min-w-0">
+                    <p className="truncate" title={row.name}>
+                      {row.name}
+                    </p>
+                    <Progress value={(row.expected / heaviest) * 100} className="h-1.5 mt-1" />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      In {row.papersAsked} of {row.papersTotal} papers
+                    </p>
+                  </div>
+                  <span className="hidden sm:block text-right">
+                    {row.mean} ± {row.stdDev}
+                  </span>
+                  <span className="hidden sm:block text-right text-muted-foreground">{row.variance}</span>
+                  <span className="text-right font-semibold text-primary">
+                    {row.expected}
+                    <span className="text-xs font-normal text-muted-foreground">{share(row.expected)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_PREDICTION_PARAMETERS, type PredictionParameters } from "@/lib/predictionModel";
+import { loadPredictionSettings, resetPredictionSettings, savePredictionSettings } from "@/lib/predictionSettings";
+
+interface PredictionSettingsDialogProps {
+  open: boolean;
+  /** Subjects with analyzed papers */
+  subjects: string[];
+  onOpenChange: (open: boolean) => void;
+  /** Called after settings change so the predictions can be recomputed */
+  onSaved: () => void;
+}
+
+interface ParameterControl {
+  key: keyof PredictionParameters;
+  label: string;
+  hint: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const formatWeight = (value: number) => value.toFixed(2);
+
+const CONTROLS: ParameterControl[] = [
+  {
+    key: "recencyHalfLife",
+    label: "Recency half-life",
+    hint: "A paper this many years older than the latest counts half as much",
+    min: 1,
+    max: 10,
+    step: 0.5,
+    format: (value) => `${value} yr`,
+  },
+  {
+    key: "frequencyWeight",
+    label: "Frequency weight",
+    hint: "How often the topic was asked",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: formatWeight,
+  },
+  {
+    key: "cycleWeight",
+    label: "Cycle weight",
+    hint: "Topics that follow a cycle and are due, or are overdue",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: formatWeight,
+  },
+  {
+    key: "marksWeight",
+    label: "Marks weight",
+    hint: "Topics that usually carry more marks",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: formatWeight,
+  },
+  {
+    key: "minCycleAppearances",
+    label: "Appearances for a cycle",
+    hint: "Times a topic must recur at a regular gap before it counts as a cycle",
+    min: 2,
+    max: 6,
+    step: 1,
+    format: (value) => String(value),
+  },
+];
+
+export function PredictionSettingsDialog({ open, subjects, onOpenChange, onSaved }: PredictionSettingsDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [subject, setSubject] = useState<string | null>(null);
+  const [saved, setSaved] = useState<Map<string, PredictionParameters>>(new Map());
+  const [parameters, setParameters] = useState<PredictionParameters>(DEFAULT_PREDICTION_PARAMETERS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    setSubject((current) => (current && subjects.includes(current) ? current : subjects[0] ?? null));
+    loadPredictionSettings(user.id)
+      .then(setSaved)
+      .catch((error) => console.error("Error loading prediction settings:", error));
+  }, [open, user, subjects]);
+
+  useEffect(() => {
+    if (!subject) return;
+    setParameters(saved.get(subject.trim().toLowerCase()) ?? DEFAULT_PREDICTION_PARAMETERS);
+  }, [subject, saved]);
+
+  const totalWeight = parameters.frequencyWeight + parameters.cycleWeight + parameters.marksWeight;
+
+  const persist = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: "Settings saved", description: `Predictions for ${subject} are being recalculated.` });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving prediction settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Prediction Settings</DialogTitle>
+          <DialogDescription>
+            Tune how topics are scored for each subject. The same papers and settings always give the same predictions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {subjects.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Analyze papers for a subject first to tune its predictions.</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Select value={subject ?? undefined} onValueChange={setSubject}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {CONTROLS.map((control) => (
+              <div key={control.key} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">{control.label}</Label>
+                  <span className="text-xs font-medium">{control.format(parameters[control.key])}</span>
+                </div>
+                <Slider
+                  min={control.min}
+                  max={control.max}
+                  step={control.step}
+                  value={[parameters[control.key]]}
+                  onValueChange={([value]) => setParameters((prev) => ({ ...prev, [control.key]: value }))}
+                />
+                <p className="text-xs text-muted-foreground">{control.hint}</p>
+              </div>
+            ))}
+
+            {totalWeight === 0 && (
+              <p className="text-xs text-warning">With every weight at zero, only frequency is used.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={saving || !subject || !user}
+            onClick={() => persist(() => resetPredictionSettings(user!.id, subject!))}
+          >
+            Reset to defaults
+          </Button>
+          <Button
+            variant="hero"
+            disabled={saving || !subject || !user}
+            onClick={() => persist(() => savePredictionSettings(user!.id, subject!, parameters))}
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save & recalculate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
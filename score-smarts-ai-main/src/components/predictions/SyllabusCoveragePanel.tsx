@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import {
+  COVERAGE_STATUSES,
+  MIN_YEARS_FOR_BLIND_SPOTS,
+  type CoverageStatus,
+  type SubjectCoverage,
+} from "@/lib/syllabusCoverage";
+import { cn } from "@/lib/utils";
+
+interface SyllabusCoveragePanelProps {
+  coverage: SubjectCoverage;
+}
+
+const statusColor: Record<CoverageStatus, string> = {
+  never: "bg-destructive/10 text-destructive border-destructive/20",
+  once: "bg-warning/10 text-warning border-warning/20",
+  sometimes: "bg-primary/10 text-primary border-primary/20",
+  every_year: "bg-success/10 text-success border-success/20",
+};
+
+const statusLabel = Object.fromEntries(COVERAGE_STATUSES.map((status) => [status.value, status.label])) as Record<
+  CoverageStatus,
+  string
+>;
+
+export function SyllabusCoveragePanel({ coverage }: SyllabusCoveragePanelProps) {
+  const [shown, setShown] = useState<CoverageStatus | null>(null);
+
+  // Keyed by position, since two syllabi of a subject can both have a "Unit 1"
+  const units = coverage.units
+    .map((unit, index) => ({
+      ...unit,
+      key: String(index),
+      topics: unit.topics.filter((topic) => !shown || topic.status === shown),
+    }))
+    .filter((unit) => unit.topics.length > 0);
+
+  return (
+    <Card variant="default">
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div>
+          <h3 className="font-heading font-semibold">Syllabus coverage · {coverage.subject}</h3>
+          <p className="text-xs text-muted-foreground">
+            {coverage.years.length > 0
+              ? `How often each syllabus topic came up in ${coverage.years.length} year(s) of papers (${coverage.years[0]}–${coverage.years[coverage.years.length - 1]}).`
+              : "No segmented papers for this subject yet, so every topic counts as never asked."}
+            {coverage.years.length > 0 &&
+              coverage.years.length < MIN_YEARS_FOR_BLIND_SPOTS &&
+              " Add more years to tell real blind spots from chance."}
+          </p>
+        </div>
+
+        {/* Legend and Filter */}
+        <div className="flex flex-wrap gap-2">
+          {COVERAGE_STATUSES.map((status) => (
+            <button
+              key={status.value}
+              type="button"
+              onClick={() => setShown((current) => (current === status.value ? null : status.value))}
+            >
+              <Badge
+                variant="outline"
+                className={cn(
+                  statusColor[status.value],
+                  shown && shown !== status.value && "opacity-40",
+                  shown === status.value && "ring-2 ring-ring ring-offset-1"
+                )}
+              >
+                {status.label} · {coverage.counts[status.value]}
+              </Badge>
+            </button>
+          ))}
+        </div>
+
+        {units.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No topics with this status.</p>
+        ) : (
+          <Accordion type="multiple" defaultValue={coverage.units.map((_, index) => String(index))}>
+            {units.map((unit) => (
+              <AccordionItem key={unit.key} value={unit.key}>
+                <AccordionTrigger className="text-sm">
+                  <span className="flex items-center gap-2">
+                    {unit.title}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {unit.topics.filter((topic) => topic.status !== "never").length} of {unit.topics.length} asked
+                    </span>
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <ul className="space-y-2 pl-2 border-l border-border">
+                    {unit.topics.map((topic) => (
+                      <li key={topic.id} className="pl-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm">{topic.title}</span>
+                          <Badge variant="outline" className={statusColor[topic.status]}>
+                            {statusLabel[topic.status]}
+                          </Badge>
+                          {topic.yearsAsked.length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {topic.yearsAsked.join(", ")} · {topic.questions} question(s)
+                            </span>
+                          )}
+                        </div>
+                        {topic.subtopics.length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-0.5">{topic.subtopics.join(" · ")}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { TOPIC_DIFFICULTIES, type TopicDifficulty, type TopicDraft } from "@/lib/topicCuration";
+
+interface TopicEditFormProps {
+  id: string;
+  initial: TopicDraft;
+  /** Subjects to choose from; a new one can also be typed */
+  subjects: string[];
+  /** Topics from the past-paper analysis keep their syllabus name and subject */
+  lockNameAndSubject?: boolean;
+  saving: boolean;
+  onSave: (draft: TopicDraft) => void;
+  onCancel: () => void;
+}
+
+const NEW_SUBJECT = "__new__";
+
+export function TopicEditForm({
+  id,
+  initial,
+  subjects,
+  lockNameAndSubject = false,
+  saving,
+  onSave,
+  onCancel,
+}: TopicEditFormProps) {
+  const [draft, setDraft] = useState<TopicDraft>(initial);
+  const [addingSubject, setAddingSubject] = useState(false);
+  const subjectOptions = subjects.includes(draft.subject) || !draft.subject ? subjects : [draft.subject, ...subjects];
+
+  const update = (changes: Partial<TopicDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const override = draft.probabilityOverride;
+  const validOverride = override === null || (override >= 0 && override <= 100);
+  const canSave = draft.topic.trim() !== "" && draft.subject.trim() !== "" && validOverride;
+
+  return (
+    <form
+      className="grid grid-cols-1 sm:grid-cols-2 gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSave) onSave(draft);
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-topic`} className="text-xs">Topic</Label>
+        <Input
+          id={`${id}-topic`}
+          inputSize="sm"
+          autoFocus={!lockNameAndSubject}
+          disabled={lockNameAndSubject}
+          value={draft.topic}
+          onChange={(e) => update({ topic: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-subject`} className="text-xs">Subject</Label>
+        {addingSubject ? (
+          <Input
+            id={`${id}-subject`}
+            inputSize="sm"
+            autoFocus
+            placeholder="New subject name"
+            value={draft.subject}
+            onChange={(e) => update({ subject: e.target.value })}
+            onBlur={() => draft.subject.trim() && setAddingSubject(false)}
+          />
+        ) : (
+          <Select
+            value={draft.subject || undefined}
+            disabled={lockNameAndSubject}
+            onValueChange={(value) => {
+              if (value === NEW_SUBJECT) {
+                setAddingSubject(true);
+                update({ subject: "" });
+              } else {
+                update({ subject: value });
+              }
+            }}
+          >
+            <SelectTrigger id={`${id}-subject`} className="h-9">
+              <SelectValue placeholder="Choose a subject" />
+            </SelectTrigger>
+            <SelectContent>
+              {subjectOptions.map((subject) => (
+                <SelectItem key={subject} value={subject}>
+                  {subject}
+                </SelectItem>
+              ))}
+              <SelectItem value={NEW_SUBJECT}>+ New subject…</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-difficulty`} className="text-xs">Difficulty</Label>
+        <Select value={draft.difficulty} onValueChange={(value) => update({ difficulty: value as TopicDifficulty })}>
+          <SelectTrigger id={`${id}-difficulty`} className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOPIC_DIFFICULTIES.map((difficulty) => (
+              <SelectItem key={difficulty} value={difficulty}>
+                {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-override`} className="text-xs">Probability override (%)</Label>
+        <Input
+          id={`${id}-override`}
+          inputSize="sm"
+          type="number"
+          min={0}
+          max={100}
+          placeholder="Use the analysis"
+          value={override ?? ""}
+          onChange={(e) => update({ probabilityOverride: e.target.value === "" ? null : Number(e.target.value) })}
+        />
+        {!validOverride && <p className="text-xs text-destructive">Enter a value from 0 to 100</p>}
+      </div>
+
+      <div className="sm:col-span-2 space-y-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${id}-pinned`}
+            checked={draft.pinned}
+            onCheckedChange={(pinned) => update({ pinned })}
+          />
+          <Label htmlFor={`${id}-pinned`} className="text-xs">Pin as important</Label>
+        </div>
+        {draft.pinned && (
+          <Input
+            inputSize="sm"
+            placeholder="Source, e.g. teacher said this is important"
+            value={draft.pinNote}
+            onChange={(e) => update({ pinNote: e.target.value })}
+          />
+        )}
+      </div>
+
+      <div className="sm:col-span-2 flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="hero" size="sm" disabled={saving || !canSave}>
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { scoreContributions, type ScoreContribution, type ScoreFactors } from "@/lib/predictionModel";
+import { loadTopicQuestions, questionsFor, type TopicQuestion } from "@/lib/topicTrends";
+
+export interface EvidenceTopic {
+  topic: string;
+  subject: string;
+  probability: number | null;
+  probability_override: number | null;
+  frequency: number;
+  papers_asked: number;
+  papers_total: number;
+  syllabus_topic_id: string | null;
+  score_factors: ScoreFactors | null;
+}
+
+interface TopicEvidenceSheetProps {
+  /** The topic to explain; null keeps the sheet closed */
+  topic: EvidenceTopic | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const factorLabel: Record<ScoreContribution["factor"], { title: string; detail: string }> = {
+  recency: { title: "Recency & frequency", detail: "Share of papers that asked it, recent papers counting more" },
+  cycle: { title: "Cycle", detail: "Whether a regular gap between appearances says it is due" },
+  marks: { title: "Marks weight", detail: "Its average marks against the subject's heaviest topic" },
+};
+
+export function TopicEvidenceSheet({ topic, onOpenChange }: TopicEvidenceSheetProps) {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<TopicQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const subject = topic?.subject;
+  const topicId = topic?.syllabus_topic_id ?? null;
+
+  useEffect(() => {
+    setQuestions([]);
+    if (!user || !subject || !topicId) return;
+    setLoading(true);
+    loadTopicQuestions(user.id, subject)
+      .then((data) => setQuestions(questionsFor(data.questions, new Set([topicId]), null)))
+      .catch((error) => console.error("Error loading topic evidence:", error))
+      .finally(() => setLoading(false));
+  }, [user, subject, topicId]);
+
+  const factors = topic?.score_factors ?? null;
+  const years = [...new Set(questions.map((question) => question.year))];
+  const totalMarks = questions.reduce((sum, question) => sum + (question.marks ?? 0), 0);
+
+  return (
+    <Sheet open={topic !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {topic && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-heading">Why “{topic.topic}”?</SheetTitle>
+              <SheetDescription>
+                {topic.subject}
+                {topic.probability !== null && ` · analysis says ${topic.probability}%`}
+                {topic.probability_override !== null && ` · you set ${topic.probability_override}%`}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-6 mt-6">
+              {/* Score Factors */}
+              {factors ? (
+                <section className="space-y-3">
+                  <h4 className="font-heading font-semibold text-sm">How the score was built</h4>
+                  {scoreContributions(factors).map((contribution) => (
+                    <div key={contribution.factor} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span>{factorLabel[contribution.factor].title}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(contribution.score * 100)}% × weight {Math.round(contribution.weight * 100)}% ={" "}
+                          <span className="font-semibold text-primary">+{contribution.points} pts</span>
+                        </span>
+                      </div>
+                      <Progress value={contribution.score * 100} className="h-1.5" />
+                      <p className="text-xs text-muted-foreground">{factorLabel[contribution.factor].detail}</p>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline">Half-life {factors.parameters.recencyHalfLife} years</Badge>
+                    {factors.period && <Badge variant="outline">Every {factors.period} years</Badge>}
+                    {factors.nextExpectedYear && <Badge variant="outline">Next expected {factors.nextExpectedYear}</Badge>}
+                    {factors.overdue && (
+                      <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                        Overdue
+                      </Badge>
+                    )}
+                  </div>
+                </section>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {topic.frequency > 0
+                    ? `This topic isn't in a confirmed syllabus, so it has no score: the AI mentioned it ${topic.frequency} time(s) in your chats.`
+                    : "You added this topic yourself, so there is no past-paper evidence behind it."}
+                </p>
+              )}
+
+              {/* Source Questions */}
+              {topicId && (
+                <section className="space-y-3">
+                  <div>
+                    <h4 className="font-heading font-semibold text-sm">Questions behind it</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Asked in {topic.papers_asked} of {topic.papers_total} papers
+                      {years.length > 0 && ` (${years.join(", ")})`}
+                      {totalMarks > 0 && ` · ${totalMarks} marks in all`}
+                    </p>
+                  </div>
+                  {loading ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                    </div>
+                  ) : questions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No matched questions. Re-run the analysis to refresh them.</p>
+                  ) : (
+                    questions.map((question) => (
+                      <div key={question.questionId} className="p-3 bg-muted/50 rounded-lg text-sm space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{question.year}</Badge>
+                          <span className="text-muted-foreground">{question.label}</span>
+                          {question.marks !== null && (
+                            <span className="font-semibold text-muted-foreground">{question.marks} marks</span>
+                          )}
+                          <Link
+                            to={`/questions?paper=${question.paperId}&question=${question.questionId}`}
+                            className="ml-auto inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                          >
+                            Open paper
+                            <ExternalLink className="w-3 h-3" />
+                          </Link>
+                        </div>
+                        <p>{question.text}</p>
+                      </div>
+                    ))
+                  )}
+                </section>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
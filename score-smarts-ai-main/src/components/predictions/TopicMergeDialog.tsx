@@ -0,0 +1,222 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Merge, Split } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  loadTopicAliases,
+  mergeTopics,
+  splitAlias,
+  suggestMerges,
+  topicKey,
+  type MergeableTopic,
+  type TopicAlias,
+} from "@/lib/topicAliases";
+
+interface TopicMergeDialogProps {
+  open: boolean;
+  /** Topics mentioned by the AI; topics from the past-paper analysis can't be merged */
+  topics: MergeableTopic[];
+  onOpenChange: (open: boolean) => void;
+  /** Called after topics were merged or split so the list can be refetched */
+  onChanged: () => void;
+}
+
+export function TopicMergeDialog({ open, topics, onOpenChange, onChanged }: TopicMergeDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [aliases, setAliases] = useState<TopicAlias[]>([]);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    loadTopicAliases(user.id)
+      .then(setAliases)
+      .catch((error) => console.error("Error loading topic aliases:", error));
+  }, [open, user, topics]);
+
+  useEffect(() => {
+    if (!open) return;
+    setTargetId((current) => (topics.some((topic) => topic.id === current) ? current : topics[0]?.id ?? null));
+    setSelected(new Set());
+  }, [open, topics]);
+
+  const target = topics.find((topic) => topic.id === targetId) ?? null;
+  const candidates = target ? topics.filter((topic) => topic.subject === target.subject && topic.id !== target.id) : [];
+  const targetAliases = aliases.filter((alias) => alias.topic_id === targetId);
+  const suggestions = suggestMerges(topics);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+      setSelected(new Set());
+      onChanged();
+    } catch (error) {
+      console.error("Error updating topics:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update topics",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = (into: MergeableTopic, merged: MergeableTopic[]) =>
+    run(() => mergeTopics(user!.id, into, merged), `Merged ${merged.length} topic(s) into "${into.topic}"`);
+
+  const chooseTarget = (id: string) => {
+    setTargetId(id);
+    setSelected(new Set());
+  };
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge Topics</DialogTitle>
+          <DialogDescription>
+            Combine topics the AI named differently. Merged names are kept as aliases, so future answers count
+            towards the kept topic.
+          </DialogDescription>
+        </DialogHeader>
+
+        {topics.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No topics from AI answers yet.</p>
+        ) : (
+          <div className="space-y-6">
+            {suggestions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Suggested merges</Label>
+                <div className="max-h-40 overflow-y-auto space-y-2">
+                  {suggestions.map(([keep, ...rest]) => (
+                    <div key={keep.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50 text-sm">
+                      <p className="flex-1 min-w-0">
+                        <span className="font-medium">{keep.topic}</span>
+                        <span className="text-muted-foreground"> ← {rest.map((topic) => topic.topic).join(", ")}</span>
+                      </p>
+                      <Button variant="outline" size="sm" disabled={busy} onClick={() => merge(keep, rest)}>
+                        Merge
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Keep topic</Label>
+              <Select value={targetId ?? undefined} onValueChange={chooseTarget}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a topic" />
+                </SelectTrigger>
+                <SelectContent>
+                  {topics.map((topic) => (
+                    <SelectItem key={topic.id} value={topic.id}>
+                      {topic.topic} · {topic.subject}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {target && (
+              <>
+                <div className="space-y-2">
+                  <Label>Merge into it</Label>
+                  {candidates.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No other topics in {target.subject}.</p>
+                  ) : (
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                      {candidates.map((topic) => (
+                        <div key={topic.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50">
+                          <Checkbox
+                            id={`merge-${topic.id}`}
+                            checked={selected.has(topic.id)}
+                            onCheckedChange={(checked) => toggle(topic.id, checked === true)}
+                          />
+                          <label htmlFor={`merge-${topic.id}`} className="flex-1 text-sm cursor-pointer">
+                            {topic.topic}
+                          </label>
+                          <span className="text-xs text-muted-foreground">{topic.frequency ?? 0}x</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Aliases</Label>
+                  {targetAliases.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No other names recorded for this topic.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {targetAliases.map((alias) => {
+                        const ownName = alias.alias_key === topicKey(target.topic);
+                        return (
+                          <Badge key={alias.id} variant="secondary" className="gap-1 pr-1">
+                            {alias.alias}
+                            <span className="text-muted-foreground font-normal">{alias.mentions}x</span>
+                            {!ownName && (
+                              <button
+                                type="button"
+                                title="Split into its own topic"
+                                className="ml-1 rounded p-0.5 hover:bg-background disabled:opacity-50"
+                                disabled={busy}
+                                onClick={() =>
+                                  run(() => splitAlias(user!.id, alias, target), `"${alias.alias}" is its own topic again`)
+                                }
+                              >
+                                <Split className="w-3 h-3" />
+                              </button>
+                            )}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="hero"
+            disabled={busy || !target || selected.size === 0 || !user}
+            onClick={() => merge(target!, candidates.filter((topic) => selected.has(topic.id)))}
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+            {selected.size > 0 ? `Merge ${selected.size} into topic` : "Merge into topic"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect, useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectGroup, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { BarChart3, LineChart as LineChartIcon, Loader2, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { buildHeatmap, buildTrend, loadTopicQuestions, questionsFor, type TopicQuestion } from "@/lib/topicTrends";
+import { cn } from "@/lib/utils";
+
+export interface TrendTopic {
+  /** Syllabus topic id */
+  id: string;
+  name: string;
+  unit: string | null;
+}
+
+interface TopicTrendsPanelProps {
+  subject: string;
+  /** The subject's analyzed topics */
+  topics: TrendTopic[];
+}
+
+interface DrillDown {
+  title: string;
+  topicIds: Set<string>;
+  /** null for every year */
+  year: string | null;
+}
+
+const WHOLE_SUBJECT = "all";
+
+const chartConfig = {
+  appearances: { label: "Questions", color: "hsl(var(--primary))" },
+  marks: { label: "Marks", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+export function TopicTrendsPanel({ subject, topics }: TopicTrendsPanelProps) {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<TopicQuestion[]>([]);
+  const [years, setYears] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState(WHOLE_SUBJECT);
+  const [chartType, setChartType] = useState<"bar" | "line">("bar");
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    setLoading(true);
+    setScope(WHOLE_SUBJECT);
+    setDrillDown(null);
+    loadTopicQuestions(user.id, subject)
+      .then((data) => {
+        setQuestions(data.questions);
+        setYears(data.years);
+      })
+      .catch((error) => console.error("Error loading topic trends:", error))
+      .finally(() => setLoading(false));
+  }, [user, subject]);
+
+  const units = [...new Set(topics.map((topic) => topic.unit).filter((unit): unit is string => unit !== null))];
+
+  // Resolves the scope select ("all", "unit:<title>" or "topic:<id>") to its topics
+  const scoped = useMemo(() => {
+    if (scope.startsWith("unit:")) {
+      const unit = scope.slice("unit:".length);
+      return { title: unit, topics: topics.filter((topic) => topic.unit === unit) };
+    }
+    if (scope.startsWith("topic:")) {
+      const topic = topics.find((t) => t.id === scope.slice("topic:".length));
+      return { title: topic?.name ?? "", topics: topic ? [topic] : [] };
+    }
+    return { title: subject, topics };
+  }, [scope, topics, subject]);
+
+  const scopedIds = useMemo(() => new Set(scoped.topics.map((topic) => topic.id)), [scoped]);
+  const trend = useMemo(() => buildTrend(questions, scopedIds, years), [questions, scopedIds, years]);
+  const heatmap = useMemo(() => buildHeatmap(scoped.topics, questions, years), [scoped, questions, years]);
+  const maxCell = Math.max(1, ...heatmap.flatMap((row) => row.cells.map((cell) => cell.appearances)));
+  const drilledQuestions = drillDown ? questionsFor(questions, drillDown.topicIds, drillDown.year) : [];
+
+  const chooseScope = (value: string) => {
+    setScope(value);
+    setDrillDown(null);
+  };
+
+  const drillIntoYear = (year: string | undefined) => {
+    if (year) setDrillDown({ title: scoped.title, topicIds: scopedIds, year });
+  };
+
+  const chartProps = {
+    data: trend,
+    onClick: (state: { activeLabel?: string } | null) => drillIntoYear(state?.activeLabel),
+    className: "cursor-pointer",
+  };
+
+  return (
+    <Card variant="default">
+      <CardContent className="p-4 sm:p-6 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div className="space-y-1 flex-1 max-w-sm">
+            <Label htmlFor="trend-scope" className="text-xs">Show trend for</Label>
+            <Select value={scope} onValueChange={chooseScope}>
+              <SelectTrigger id="trend-scope" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_SUBJECT}>All of {subject}</SelectItem>
+                {units.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Units</SelectLabel>
+                    {units.map((unit) => (
+                      <SelectItem key={unit} value={`unit:${unit}`}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                <SelectGroup>
+                  <SelectLabel>Topics</SelectLabel>
+                  {topics.map((topic) => (
+                    <SelectItem key={topic.id} value={`topic:${topic.id}`}>
+                      {topic.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={chartType}
+            onValueChange={(value) => value && setChartType(value as "bar" | "line")}
+          >
+            <ToggleGroupItem value="bar" aria-label="Bar chart">
+              <BarChart3 className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="line" aria-label="Line chart">
+              <LineChartIcon className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : years.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No analyzed papers for {subject} yet.</p>
+        ) : (
+          <>
+            {/* Trend Chart */}
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">Click a year to see its questions.</p>
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                {chartType === "bar" ? (
+                  <BarChart {...chartProps}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="year" tickLine={false} axisLine={false} />
+                    <YAxis yAxisId="appearances" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <YAxis yAxisId="marks" orientation="right" tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar yAxisId="appearances" dataKey="appearances" fill="var(--color-appearances)" radius={4} />
+                    <Bar yAxisId="marks" dataKey="marks" fill="var(--color-marks)" radius={4} />
+                  </BarChart>
+                ) : (
+                  <LineChart {...chartProps}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="year" tickLine={false} axisLine={false} />
+                    <YAxis yAxisId="appearances" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <YAxis yAxisId="marks" orientation="right" tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line yAxisId="appearances" dataKey="appearances" stroke="var(--color-appearances)" strokeWidth={2} />
+                    <Line yAxisId="marks" dataKey="marks" stroke="var(--color-marks)" strokeWidth={2} />
+                  </LineChart>
+                )}
+              </ChartContainer>
+            </div>
+
+            {/* Topic × Year Heatmap */}
+            {heatmap.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs border-separate border-spacing-1">
+                  <thead>
+                    <tr>
+                      <th className="text-left font-medium text-muted-foreground">Topic</th>
+                      {years.map((year) => (
+                        <th key={year} className="font-medium text-muted-foreground w-12">
+                          {year}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {heatmap.map((row) => (
+                      <tr key={row.topicId}>
+                        <td className="pr-2 max-w-[16rem] truncate" title={row.name}>
+                          {row.name}
+                        </td>
+                        {row.cells.map((cell) => (
+                          <td key={cell.year} className="p-0">
+                            <button
+                              type="button"
+                              disabled={cell.appearances === 0}
+                              title={`${row.name} · ${cell.year}: ${cell.appearances} question(s), ${cell.marks} marks`}
+                              className={cn(
+                                "w-full h-8 rounded text-center font-medium transition-opacity",
+                                cell.appearances === 0 ? "bg-muted/40 text-transparent" : "hover:opacity-80"
+                              )}
+                              style={
+                                cell.appearances > 0
+                                  ? { backgroundColor: `hsl(var(--primary) / ${0.15 + 0.85 * (cell.appearances / maxCell)})` }
+                                  : undefined
+                              }
+                              onClick={() =>
+                                setDrillDown({ title: row.name, topicIds: new Set([row.topicId]), year: cell.year })
+                              }
+                            >
+                              <span className={cell.appearances / maxCell > 0.5 ? "text-primary-foreground" : ""}>
+                                {cell.appearances || ""}
+                              </span>
+                            </button>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Drill-down */}
+            {drillDown && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-heading font-semibold text-sm">
+                    {drillDown.title}
+                    {drillDown.year && <span className="text-muted-foreground font-normal"> · {drillDown.year}</span>}
+                  </h4>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDrillDown(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                {drilledQuestions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No questions on this in {drillDown.year}.</p>
+                ) : (
+                  drilledQuestions.map((question) => (
+                    <div key={question.questionId} className="flex gap-4 p-3 bg-muted/50 rounded-lg text-sm">
+                      <Badge variant="outline" className="h-fit flex-shrink-0">
+                        {question.year}
+                      </Badge>
+                      <span className="text-muted-foreground w-12 flex-shrink-0">{question.label}</span>
+                      <p className="flex-1 min-w-0">{question.text}</p>
+                      {question.marks !== null && (
+                        <span className="font-semibold text-muted-foreground flex-shrink-0">{question.marks} marks</span>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
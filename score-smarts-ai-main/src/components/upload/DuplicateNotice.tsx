@@ -0,0 +1,63 @@
+import { Copy } from "lucide-react";
+import type { StoredDocument } from "@/lib/documentFiles";
+import type { DuplicateMatch } from "@/lib/duplicates";
+
+interface DuplicateNoticeProps {
+  match?: DuplicateMatch;
+  replacing?: StoredDocument;
+  onSkip: () => void;
+  onReplace: (existing: StoredDocument) => void;
+  onUndoReplace: () => void;
+}
+
+const actionClass = "text-xs font-medium text-primary hover:underline flex-shrink-0";
+
+const describeMatch = (match: DuplicateMatch) => {
+  switch (match.kind) {
+    case "exact":
+      return `Already uploaded as ${match.existing.title}`;
+    case "queued":
+      return `Same file as ${match.otherName}`;
+    case "similar":
+      return `You already have ${match.existing.title}`;
+  }
+};
+
+export function DuplicateNotice({ match, replacing, onSkip, onReplace, onUndoReplace }: DuplicateNoticeProps) {
+  if (replacing) {
+    return (
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <p className="text-xs text-muted-foreground truncate">Will replace {replacing.title}</p>
+        <button onClick={onUndoReplace} className={actionClass}>
+          Undo
+        </button>
+      </div>
+    );
+  }
+
+  if (!match) return null;
+
+  const message = describeMatch(match);
+
+  return (
+    <div className="flex items-center justify-between gap-2 mt-2">
+      <p
+        className={`flex items-center gap-1 text-xs truncate ${match.kind === "similar" ? "text-warning" : "text-destructive"}`}
+        title={message}
+      >
+        <Copy className="w-3 h-3 flex-shrink-0" />
+        {message}
+      </p>
+      <div className="flex items-center gap-3">
+        <button onClick={onSkip} className={actionClass}>
+          Skip
+        </button>
+        {match.kind !== "queued" && (
+          <button onClick={() => onReplace(match.existing)} className={actionClass}>
+            Replace
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
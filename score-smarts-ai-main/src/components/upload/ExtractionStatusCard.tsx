@@ -0,0 +1,65 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Loader2 } from "lucide-react";
+import type { ExtractionStatus, UploadedDocument } from "@/hooks/useUploadedDocuments";
+
+interface ExtractionStatusCardProps {
+  documents: UploadedDocument[];
+}
+
+const statusLabels: Record<ExtractionStatus, string> = {
+  pending: "Queued",
+  processing: "Extracting text",
+  completed: "Ready",
+  failed: "Failed",
+};
+
+const getStatusColor = (status: ExtractionStatus) => {
+  switch (status) {
+    case "completed":
+      return "bg-success/10 text-success border-success/20";
+    case "failed":
+      return "bg-destructive/10 text-destructive border-destructive/20";
+    default:
+      return "bg-warning/10 text-warning border-warning/20";
+  }
+};
+
+export function ExtractionStatusCard({ documents }: ExtractionStatusCardProps) {
+  if (documents.length === 0) return null;
+
+  return (
+    <Card variant="default" className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg">Processing Status</CardTitle>
+        <CardDescription>
+          Text is extracted from each file after upload so the AI can read its contents.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {documents.map((doc) => (
+          <div
+            key={doc.id}
+            className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <FileText className="w-4 h-4 text-primary flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{doc.name}</p>
+                {doc.extractionStatus === "failed" && doc.extractionError && (
+                  <p className="text-xs text-destructive truncate">{doc.extractionError}</p>
+                )}
+              </div>
+            </div>
+            <Badge variant="outline" className={`gap-1 flex-shrink-0 ${getStatusColor(doc.extractionStatus)}`}>
+              {(doc.extractionStatus === "pending" || doc.extractionStatus === "processing") && (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              )}
+              {statusLabels[doc.extractionStatus]}
+            </Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowUp, ArrowDown, X, RotateCcw, RotateCw, Wand2, Layers, Loader2 } from "lucide-react";
+import { PaperMetadataForm } from "@/components/upload/PaperMetadataForm";
+import { useToast } from "@/hooks/use-toast";
+import { guessPaperMetadata, isValidPaperMetadata, type PaperMetadata } from "@/lib/paperMetadata";
+import {
+  DEFAULT_PAGE_EDITS,
+  MAX_SKEW_DEGREES,
+  assemblePdf,
+  estimateSkew,
+  renderPage,
+  type PageEdits,
+} from "@/lib/pageAssembly";
+
+export interface AssemblySource {
+  id: string;
+  name: string;
+  file: File;
+}
+
+export interface AssembledPaper {
+  file: File;
+  /** The edited pages, kept for OCR */
+  pageImages: Blob[];
+  metadata: PaperMetadata;
+  /** Queue entries the paper was made from */
+  sourceIds: string[];
+}
+
+interface PaperAssemblyDialogProps {
+  images: AssemblySource[] | null;
+  subjects: string[];
+  onOpenChange: (open: boolean) => void;
+  onAssembled: (paper: AssembledPaper) => void;
+}
+
+interface AssemblyPage extends AssemblySource {
+  edits: PageEdits;
+}
+
+type CropEdge = keyof PageEdits["crop"];
+
+const PREVIEW_SIZE = 900;
+const THUMBNAIL_SIZE = 240;
+const MAX_CROP_PERCENT = 40;
+
+const CROP_EDGES: { edge: CropEdge; label: string }[] = [
+  { edge: "top", label: "Top" },
+  { edge: "bottom", label: "Bottom" },
+  { edge: "left", label: "Left" },
+  { edge: "right", label: "Right" },
+];
+
+function PagePreview({ file, edits, size, className }: { file: File; edits: PageEdits; size: number; className?: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    renderPage(file, edits, size)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error("Page preview error:", error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file, edits, size]);
+
+  return url ? (
+    <img src={url} alt="" className={className} />
+  ) : (
+    <div className={`flex items-center justify-center bg-muted ${className ?? ""}`}>
+      <Loader2 className="w-5 h-5 animate-spin text-primary" />
+    </div>
+  );
+}
+
+export function PaperAssemblyDialog({ images, subjects, onOpenChange, onAssembled }: PaperAssemblyDialogProps) {
+  const { toast } = useToast();
+  const [pages, setPages] = useState<AssemblyPage[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<PaperMetadata | null>(null);
+  const [straightening, setStraightening] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!images) return;
+    setPages(images.map((image) => ({ ...image, edits: DEFAULT_PAGE_EDITS })));
+    setSelectedId(images[0]?.id ?? null);
+    setMetadata(images[0] ? guessPaperMetadata(images[0].name, subjects) : null);
+  }, [images, subjects]);
+
+  const selected = pages.find((page) => page.id === selectedId) ?? null;
+
+  const updateEdits = (id: string, changes: Partial<PageEdits>) => {
+    setPages((prev) => prev.map((page) => (page.id === id ? { ...page, edits: { ...page.edits, ...changes } } : page)));
+  };
+
+  const movePage = (index: number, offset: number) => {
+    setPages((prev) => {
+      const next = [...prev];
+      const [page] = next.splice(index, 1);
+      next.splice(index + offset, 0, page);
+      return next;
+    });
+  };
+
+  const removePage = (id: string) => {
+    const remaining = pages.filter((page) => page.id !== id);
+    setPages(remaining);
+    if (selectedId === id) setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const rotate = (page: AssemblyPage, quarterTurns: number) => {
+    updateEdits(page.id, { rotation: (page.edits.rotation + quarterTurns * 90 + 360) % 360 });
+  };
+
+  const straighten = async (targets: AssemblyPage[]) => {
+    setStraightening(true);
+    try {
+      for (const page of targets) {
+        updateEdits(page.id, { skew: await estimateSkew(page.file, page.edits.rotation) });
+      }
+    } catch (error) {
+      console.error("Deskew error:", error);
+      toast({
+        title: "Error",
+        description: "Could not straighten the page",
+        variant: "destructive",
+      });
+    } finally {
+      setStraightening(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!metadata || !isValidPaperMetadata(metadata)) {
+      toast({
+        title: "Paper details missing",
+        description: "Add a subject and a valid year for the paper",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const pageImages = await Promise.all(pages.map((page) => renderPage(page.file, page.edits)));
+      const pdf = await assemblePdf(pageImages);
+      const fileName = `${metadata.subject} ${metadata.examSession ?? ""} ${metadata.year}`
+        .replace(/[^\w\s-]/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+      onAssembled({
+        file: new File([pdf], `${fileName}.pdf`, { type: "application/pdf" }),
+        pageImages,
+        metadata,
+        sourceIds: pages.map((page) => page.id),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Assembly error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to put the paper together",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={images !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Assemble Paper</DialogTitle>
+          <DialogDescription>
+            Put the photos of one paper in order and straighten them. They are saved as a single multi-page paper.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-[11rem_1fr] gap-6 pr-2">
+          {/* Page order */}
+          <div className="space-y-2">
+            {pages.map((page, index) => (
+              <div
+                key={page.id}
+                onClick={() => setSelectedId(page.id)}
+                className={`relative p-2 rounded-lg cursor-pointer border-2 transition-colors ${
+                  page.id === selectedId ? "border-primary bg-primary/5" : "border-transparent bg-muted/50"
+                }`}
+              >
+                <PagePreview file={page.file} edits={page.edits} size={THUMBNAIL_SIZE} className="w-full h-32 object-contain" />
+                <div className="flex items-center justify-between mt-1">
+                  <span className="text-xs font-medium">Page {index + 1}</span>
+                  <div className="flex items-center">
+                    <button
+                      disabled={index === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        movePage(index, -1);
+                      }}
+                      className="p-1 rounded hover:bg-primary/10 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      disabled={index === pages.length - 1}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        movePage(index, 1);
+                      }}
+                      className="p-1 rounded hover:bg-primary/10 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removePage(page.id);
+                      }}
+                      className="p-1 rounded hover:bg-destructive/10"
+                    >
+                      <X className="w-3 h-3 text-destructive" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Selected page */}
+          {selected && (
+            <div className="space-y-4">
+              <PagePreview
+                file={selected.file}
+                edits={selected.edits}
+                size={PREVIEW_SIZE}
+                className="w-full max-h-[45vh] object-contain rounded-lg bg-muted/50"
+              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => rotate(selected, -1)}>
+                  <RotateCcw className="w-4 h-4" />
+                  Rotate left
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => rotate(selected, 1)}>
+                  <RotateCw className="w-4 h-4" />
+                  Rotate right
+                </Button>
+                <Button variant="outline" size="sm" disabled={straightening} onClick={() => straighten([selected])}>
+                  {straightening ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                  Auto-straighten
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">Straighten ({selected.edits.skew.toFixed(1)}°)</Label>
+                <Slider
+                  min={-MAX_SKEW_DEGREES}
+                  max={MAX_SKEW_DEGREES}
+                  step={0.1}
+                  value={[selected.edits.skew]}
+                  onValueChange={([skew]) => updateEdits(selected.id, { skew })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {CROP_EDGES.map(({ edge, label }) => (
+                  <div key={edge} className="space-y-2">
+                    <Label className="text-xs">
+                      Crop {label.toLowerCase()} ({Math.round(selected.edits.crop[edge] * 100)}%)
+                    </Label>
+                    <Slider
+                      min={0}
+                      max={MAX_CROP_PERCENT}
+                      step={1}
+                      value={[selected.edits.crop[edge] * 100]}
+                      onValueChange={([percent]) =>
+                        updateEdits(selected.id, { crop: { ...selected.edits.crop, [edge]: percent / 100 } })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {metadata && (
+                <PaperMetadataForm id="assembled-paper" metadata={metadata} subjects={subjects} onChange={setMetadata} />
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" disabled={straightening || pages.length === 0} onClick={() => straighten(pages)}>
+            <Wand2 className="w-4 h-4" />
+            Straighten all
+          </Button>
+          <Button variant="hero" onClick={handleCreate} disabled={saving || pages.length === 0}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
+            Create paper ({pages.length} page{pages.length === 1 ? "" : "s"})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
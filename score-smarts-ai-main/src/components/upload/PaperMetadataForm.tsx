@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EXAM_SESSIONS, type PaperMetadata, type PaperType } from "@/lib/paperMetadata";
+
+interface PaperMetadataFormProps {
+  id: string;
+  metadata: PaperMetadata;
+  subjects: string[];
+  onChange: (metadata: PaperMetadata) => void;
+}
+
+const NEW_SUBJECT = "__new__";
+const NO_SESSION = "none";
+
+const parseOptionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function PaperMetadataForm({ id, metadata, subjects, onChange }: PaperMetadataFormProps) {
+  const subjectOptions = subjects.includes(metadata.subject) ? subjects : [metadata.subject, ...subjects];
+  const [addingSubject, setAddingSubject] = useState(false);
+
+  const update = (changes: Partial<PaperMetadata>) => onChange({ ...metadata, ...changes });
+
+  return (
+    <div className="grid grid-cols-2 gap-3 pt-3">
+      <div className="col-span-2 space-y-1">
+        <Label htmlFor={`${id}-subject`} className="text-xs">Subject</Label>
+        {addingSubject ? (
+          <Input
+            id={`${id}-subject`}
+            inputSize="sm"
+            autoFocus
+            placeholder="New subject name"
+            value={metadata.subject}
+            onChange={(e) => update({ subject: e.target.value })}
+            onBlur={() => metadata.subject.trim() && setAddingSubject(false)}
+          />
+        ) : (
+          <Select
+            value={metadata.subject}
+            onValueChange={(value) => {
+              if (value === NEW_SUBJECT) {
+                setAddingSubject(true);
+                update({ subject: "" });
+              } else {
+                update({ subject: value });
+              }
+            }}
+          >
+            <SelectTrigger id={`${id}-subject`} className="h-9">
+              <SelectValue placeholder="Choose a subject" />
+            </SelectTrigger>
+            <SelectContent>
+              {subjectOptions.map((subject) => (
+                <SelectItem key={subject} value={subject}>
+                  {subject}
+                </SelectItem>
+              ))}
+              <SelectItem value={NEW_SUBJECT}>+ New subject…</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-year`} className="text-xs">Year</Label>
+        <Input
+          id={`${id}-year`}
+          inputSize="sm"
+          inputMode="numeric"
+          maxLength={4}
+          value={metadata.year}
+          onChange={(e) => update({ year: e.target.value.replace(/\D/g, "") })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-session`} className="text-xs">Exam session</Label>
+        <Select
+          value={metadata.examSession ?? NO_SESSION}
+          onValueChange={(value) => update({ examSession: value === NO_SESSION ? null : value })}
+        >
+          <SelectTrigger id={`${id}-session`} className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SESSION}>Not specified</SelectItem>
+            {EXAM_SESSIONS.map((session) => (
+              <SelectItem key={session} value={session}>
+                {session}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-type`} className="text-xs">Type</Label>
+        <Select value={metadata.paperType} onValueChange={(value) => update({ paperType: value as PaperType })}>
+          <SelectTrigger id={`${id}-type`} className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="regular">Regular</SelectItem>
+            <SelectItem value="supplementary">Supplementary</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-course-code`} className="text-xs">Course code</Label>
+        <Input
+          id={`${id}-course-code`}
+          inputSize="sm"
+          value={metadata.courseCode}
+          onChange={(e) => update({ courseCode: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-max-marks`} className="text-xs">Max marks</Label>
+        <Input
+          id={`${id}-max-marks`}
+          type="number"
+          min={0}
+          inputSize="sm"
+          value={metadata.maxMarks ?? ""}
+          onChange={(e) => update({ maxMarks: parseOptionalNumber(e.target.value) })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-duration`} className="text-xs">Duration (minutes)</Label>
+        <Input
+          id={`${id}-duration`}
+          type="number"
+          min={0}
+          inputSize="sm"
+          value={metadata.durationMinutes ?? ""}
+          onChange={(e) => update({ durationMinutes: parseOptionalNumber(e.target.value) })}
+        />
+      </div>
+
+      <div className="col-span-2 space-y-1">
+        <Label htmlFor={`${id}-university`} className="text-xs">University</Label>
+        <Input
+          id={`${id}-university`}
+          inputSize="sm"
+          value={metadata.university}
+          onChange={(e) => update({ university: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Progress } from "@/components/ui/progress";
+import { Loader2, RotateCcw } from "lucide-react";
+
+interface QueuedFileStatusProps {
+  status?: "checking" | "invalid" | "uploading" | "failed";
+  progress?: number;
+  error?: string;
+  onRetry: () => void;
+}
+
+export function QueuedFileStatus({ status, progress, error, onRetry }: QueuedFileStatusProps) {
+  if (status === "checking") {
+    return (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Checking file...
+      </p>
+    );
+  }
+
+  if (status === "invalid") {
+    return (
+      <p className="text-xs text-destructive mt-2" title={error}>
+        {error}
+      </p>
+    );
+  }
+
+  if (status === "uploading") {
+    return (
+      <div className="flex items-center gap-2 mt-2">
+        <Progress value={progress ?? 0} className="h-1.5 flex-1" />
+        <span className="text-xs text-muted-foreground w-9 text-right">{progress ?? 0}%</span>
+      </div>
+    );
+  }
+
+  if (status === "failed") {
+    return (
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <p className="text-xs text-destructive truncate" title={error}>
+          {error ?? "Upload failed"}
+        </p>
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-1 text-xs font-medium text-primary hover:underline flex-shrink-0"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
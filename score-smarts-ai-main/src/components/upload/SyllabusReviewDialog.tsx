@@ -0,0 +1,280 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2, Loader2, CheckCircle2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  loadSyllabusTree,
+  confirmSyllabusTree,
+  type SyllabusTree,
+  type SyllabusUnitNode,
+  type SyllabusTopicNode,
+} from "@/lib/syllabusTree";
+
+interface SyllabusReviewDialogProps {
+  syllabusId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirmed: () => void;
+}
+
+const newTopic = (): SyllabusTopicNode => ({ id: crypto.randomUUID(), title: "", subtopics: [] });
+
+const newUnit = (position: number): SyllabusUnitNode => ({
+  id: crypto.randomUUID(),
+  title: `Unit ${position + 1}`,
+  hours: null,
+  weightage: null,
+  topics: [],
+});
+
+const parseOptionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function SyllabusReviewDialog({ syllabusId, onOpenChange, onConfirmed }: SyllabusReviewDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [original, setOriginal] = useState<SyllabusTree | null>(null);
+  const [tree, setTree] = useState<SyllabusTree | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!syllabusId) return;
+
+    setTree(null);
+    loadSyllabusTree(syllabusId)
+      .then((loaded) => {
+        setOriginal(loaded);
+        setTree(loaded);
+      })
+      .catch((error) => {
+        console.error("Error loading syllabus tree:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the parsed syllabus",
+          variant: "destructive",
+        });
+        onOpenChange(false);
+      });
+  }, [syllabusId, toast, onOpenChange]);
+
+  const updateUnit = (unitId: string, changes: Partial<SyllabusUnitNode>) => {
+    setTree((prev) => prev && {
+      ...prev,
+      units: prev.units.map((unit) => (unit.id === unitId ? { ...unit, ...changes } : unit)),
+    });
+  };
+
+  const updateTopics = (unitId: string, update: (topics: SyllabusTopicNode[]) => SyllabusTopicNode[]) => {
+    setTree((prev) => prev && {
+      ...prev,
+      units: prev.units.map((unit) => (unit.id === unitId ? { ...unit, topics: update(unit.topics) } : unit)),
+    });
+  };
+
+  const updateSubtopics = (
+    unitId: string,
+    topicId: string,
+    update: (subtopics: SyllabusTopicNode[]) => SyllabusTopicNode[]
+  ) => {
+    updateTopics(unitId, (topics) =>
+      topics.map((topic) => (topic.id === topicId ? { ...topic, subtopics: update(topic.subtopics) } : topic))
+    );
+  };
+
+  const handleConfirm = async () => {
+    if (!user || !syllabusId || !original || !tree) return;
+
+    const hasBlankTitle = tree.units.some(
+      (unit) =>
+        !unit.title.trim() ||
+        unit.topics.some((topic) => !topic.title.trim() || topic.subtopics.some((sub) => !sub.title.trim()))
+    );
+    if (!tree.courseName.trim() || hasBlankTitle) {
+      toast({
+        title: "Missing names",
+        description: "Give the course and every unit, topic and subtopic a name, or remove it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await confirmSyllabusTree(syllabusId, user.id, original, tree);
+      toast({ title: "Syllabus confirmed", description: "It will now be used for topic analysis." });
+      onConfirmed();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving syllabus tree:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the syllabus",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={syllabusId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review Syllabus Structure</DialogTitle>
+          <DialogDescription>
+            Check the units and topics we found and fix anything that was misread before it is used for analysis.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!tree ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-6 pr-2">
+            <div className="space-y-2">
+              <Label htmlFor="course-name">Course</Label>
+              <Input
+                id="course-name"
+                value={tree.courseName}
+                onChange={(e) => setTree({ ...tree, courseName: e.target.value })}
+              />
+            </div>
+
+            {tree.units.map((unit) => (
+              <div key={unit.id} className="p-4 bg-muted/50 rounded-lg space-y-3">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={unit.title}
+                    placeholder="Unit title"
+                    className="flex-1 font-medium"
+                    onChange={(e) => updateUnit(unit.id, { title: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={unit.hours ?? ""}
+                    placeholder="Hours"
+                    className="sm:w-24"
+                    onChange={(e) => updateUnit(unit.id, { hours: parseOptionalNumber(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={unit.weightage ?? ""}
+                    placeholder="Weight %"
+                    className="sm:w-28"
+                    onChange={(e) => updateUnit(unit.id, { weightage: parseOptionalNumber(e.target.value) })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setTree({ ...tree, units: tree.units.filter((u) => u.id !== unit.id) })}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+
+                <div className="space-y-2 pl-4 border-l-2 border-border">
+                  {unit.topics.map((topic) => (
+                    <div key={topic.id} className="space-y-2">
+                      <div className="flex gap-2">
+                        <Input
+                          value={topic.title}
+                          placeholder="Topic"
+                          inputSize="sm"
+                          onChange={(e) =>
+                            updateTopics(unit.id, (topics) =>
+                              topics.map((t) => (t.id === topic.id ? { ...t, title: e.target.value } : t))
+                            )
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => updateSubtopics(unit.id, topic.id, (subs) => [...subs, newTopic()])}
+                        >
+                          <Plus className="w-3 h-3" />
+                          Subtopic
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateTopics(unit.id, (topics) => topics.filter((t) => t.id !== topic.id))}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+
+                      {topic.subtopics.map((sub) => (
+                        <div key={sub.id} className="flex gap-2 pl-6">
+                          <Input
+                            value={sub.title}
+                            placeholder="Subtopic"
+                            inputSize="sm"
+                            variant="ghost"
+                            onChange={(e) =>
+                              updateSubtopics(unit.id, topic.id, (subs) =>
+                                subs.map((s) => (s.id === sub.id ? { ...s, title: e.target.value } : s))
+                              )
+                            }
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateSubtopics(unit.id, topic.id, (subs) => subs.filter((s) => s.id !== sub.id))
+                            }
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => updateTopics(unit.id, (topics) => [...topics, newTopic()])}
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add topic
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => setTree({ ...tree, units: [...tree.units, newUnit(tree.units.length)] })}
+            >
+              <Plus className="w-4 h-4" />
+              Add unit
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="hero" onClick={handleConfirm} disabled={!tree || saving}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+            Confirm Syllabus
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
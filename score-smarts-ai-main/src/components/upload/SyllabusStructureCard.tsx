@@ -0,0 +1,61 @@
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ListTree } from "lucide-react";
+import { SyllabusReviewDialog } from "@/components/upload/SyllabusReviewDialog";
+import type { UploadedDocument } from "@/hooks/useUploadedDocuments";
+
+interface SyllabusStructureCardProps {
+  syllabus: UploadedDocument[];
+  onChanged: () => void;
+}
+
+export function SyllabusStructureCard({ syllabus, onChanged }: SyllabusStructureCardProps) {
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const handleOpenChange = useCallback((open: boolean) => {
+    if (!open) setReviewingId(null);
+  }, []);
+
+  // Only syllabi whose text has been parsed have a tree to review
+  const parsed = syllabus.filter((doc) => doc.treeStatus && doc.treeStatus !== "pending");
+  if (parsed.length === 0) return null;
+
+  return (
+    <Card variant="default" className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListTree className="w-5 h-5 text-primary" />
+          Syllabus Structure
+        </CardTitle>
+        <CardDescription>
+          Review the units and topics found in each syllabus. Only confirmed syllabi are used for analysis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {parsed.map((doc) => (
+          <div key={doc.id} className="flex items-center justify-between gap-4 p-3 bg-muted/50 rounded-lg">
+            <p className="text-sm font-medium truncate">{doc.name}</p>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {doc.treeStatus === "confirmed" ? (
+                <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                  Confirmed
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                  Needs review
+                </Badge>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setReviewingId(doc.id)}>
+                {doc.treeStatus === "confirmed" ? "Edit" : "Review"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <SyllabusReviewDialog syllabusId={reviewingId} onOpenChange={handleOpenChange} onConfirmed={onChanged} />
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { FileArchive, Loader2 } from "lucide-react";
+
+interface ZipDropZoneProps {
+  busy: boolean;
+  onArchive: (archive: File) => void;
+}
+
+const isZip = (file: File) => file.name.toLowerCase().endsWith(".zip");
+
+export function ZipDropZone({ busy, onArchive }: ZipDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const archive = Array.from(event.dataTransfer.files).find(isZip);
+    if (archive) onArchive(archive);
+  };
+
+  return (
+    <label
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`flex items-center justify-center gap-3 w-full p-5 mb-8 border-2 border-dashed rounded-xl transition-colors cursor-pointer ${
+        dragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50 hover:bg-primary/5"
+      }`}
+    >
+      {busy ? (
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      ) : (
+        <FileArchive className="w-6 h-6 text-muted-foreground" />
+      )}
+      <div className="text-sm">
+        <p className="font-medium">{busy ? "Unpacking archive..." : "Got a ZIP of past papers?"}</p>
+        <p className="text-muted-foreground">Drop it here or click to import every paper and syllabus inside it</p>
+      </div>
+      <Input
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        disabled={busy}
+        onChange={(event) => {
+          const archive = event.target.files?.[0];
+          if (archive) onArchive(archive);
+          event.target.value = "";
+        }}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Pencil, PackageOpen } from "lucide-react";
+import { PaperMetadataForm } from "@/components/upload/PaperMetadataForm";
+import { useToast } from "@/hooks/use-toast";
+import { formatPaperSummary, isValidPaperMetadata } from "@/lib/paperMetadata";
+import { isSyllabusOnly, type ImportCategory, type ZipImportEntry } from "@/lib/zipImport";
+
+interface ZipImportDialogProps {
+  entries: ZipImportEntry[] | null;
+  subjects: string[];
+  onOpenChange: (open: boolean) => void;
+  onImport: (entries: ZipImportEntry[]) => void;
+}
+
+export function ZipImportDialog({ entries, subjects, onOpenChange, onImport }: ZipImportDialogProps) {
+  const { toast } = useToast();
+  const [batch, setBatch] = useState<ZipImportEntry[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBatch(entries ?? []);
+    setEditingId(null);
+  }, [entries]);
+
+  const updateEntry = (id: string, changes: Partial<ZipImportEntry>) => {
+    setBatch((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const included = batch.filter((entry) => entry.include);
+  const allIncluded = included.length === batch.length;
+
+  const handleImport = () => {
+    const incomplete = included.find(
+      (entry) => entry.category === "question-paper" && !isValidPaperMetadata(entry.metadata)
+    );
+    if (incomplete) {
+      setEditingId(incomplete.id);
+      toast({
+        title: "Paper details missing",
+        description: `Add a subject and a valid year for ${incomplete.path}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onImport(included);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={entries !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review Archive</DialogTitle>
+          <DialogDescription>
+            We sorted the files in the archive and filled in paper details from their names. Check them before they
+            are added to the upload queue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Checkbox
+            id="zip-select-all"
+            checked={allIncluded}
+            onCheckedChange={(checked) => setBatch((prev) => prev.map((entry) => ({ ...entry, include: checked === true })))}
+          />
+          <label htmlFor="zip-select-all" className="text-muted-foreground">
+            {included.length} of {batch.length} file(s) selected
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2">
+          {batch.map((entry) => (
+            <div key={entry.id} className={`p-3 bg-muted/50 rounded-lg ${entry.include ? "" : "opacity-60"}`}>
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={entry.include}
+                  onCheckedChange={(checked) => updateEntry(entry.id, { include: checked === true })}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate" title={entry.path}>
+                    {entry.path}
+                  </p>
+                  {entry.category === "question-paper" && (
+                    <p className="text-xs text-muted-foreground truncate">{formatPaperSummary(entry.metadata)}</p>
+                  )}
+                </div>
+                <Select
+                  value={entry.category}
+                  disabled={isSyllabusOnly(entry.path)}
+                  onValueChange={(value) => updateEntry(entry.id, { category: value as ImportCategory })}
+                >
+                  <SelectTrigger className="h-9 w-40 flex-shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="syllabus">Syllabus</SelectItem>
+                    <SelectItem value="question-paper">Question paper</SelectItem>
+                  </SelectContent>
+                </Select>
+                {entry.category === "question-paper" && (
+                  <button
+                    onClick={() => setEditingId(editingId === entry.id ? null : entry.id)}
+                    className="p-1 hover:bg-primary/10 rounded-lg transition-colors"
+                  >
+                    <Pencil className="w-4 h-4 text-primary" />
+                  </button>
+                )}
+              </div>
+              {editingId === entry.id && entry.category === "question-paper" && (
+                <PaperMetadataForm
+                  id={entry.id}
+                  metadata={entry.metadata}
+                  subjects={subjects}
+                  onChange={(metadata) => updateEntry(entry.id, { metadata })}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="hero" onClick={handleImport} disabled={included.length === 0}>
+            <PackageOpen className="w-4 h-4" />
+            Add {included.length} file(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
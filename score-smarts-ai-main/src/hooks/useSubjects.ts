@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+/** Subjects the user already has: syllabus course names plus past paper subjects. */
+export function useSubjects() {
+  const { user } = useAuth();
+  const [subjects, setSubjects] = useState<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data: syllabusRows }, { data: paperRows }] = await Promise.all([
+      supabase.from("syllabus").select("course_name").eq("user_id", user.id),
+      supabase.from("past_papers").select("subject").eq("user_id", user.id),
+    ]);
+
+    const names = [
+      ...(syllabusRows || []).map((row) => row.course_name),
+      ...(paperRows || []).map((row) => row.subject),
+    ].filter((name): name is string => Boolean(name?.trim()));
+
+    setSubjects([...new Set(names)].sort((a, b) => a.localeCompare(b)));
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { subjects, refresh };
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export type ExtractionStatus = "pending" | "processing" | "completed" | "failed";
+export type TreeStatus = "pending" | "needs_review" | "confirmed";
+
+export interface UploadedDocument {
+  id: string;
+  table: "syllabus" | "past_papers";
+  name: string;
+  extractionStatus: ExtractionStatus;
+  extractionError: string | null;
+  uploadedAt: string;
+  storagePath: string;
+  contentHash: string | null;
+  /** Exam details; past papers only */
+  paper?: { subject: string; year: string; examSession: string | null };
+  /** Review state of the parsed unit/topic tree; syllabus only */
+  treeStatus?: TreeStatus;
+}
+
+const POLL_INTERVAL_MS = 4000;
+
+const isInProgress = (doc: UploadedDocument) =>
+  doc.extractionStatus === "pending" || doc.extractionStatus === "processing";
+
+export function useUploadedDocuments() {
+  const { user } = useAuth();
+  const [syllabus, setSyllabus] = useState<UploadedDocument[]>([]);
+  const [papers, setPapers] = useState<UploadedDocument[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data: syllabusRows }, { data: paperRows }] = await Promise.all([
+      supabase
+        .from("syllabus")
+        .select("id, title, course_name, extraction_status, extraction_error, tree_status, uploaded_at, storage_path, content_hash")
+        .eq("user_id", user.id)
+        .order("uploaded_at", { ascending: false }),
+      supabase
+        .from("past_papers")
+        .select("id, subject, year, exam_session, extraction_status, extraction_error, uploaded_at, storage_path, content_hash")
+        .eq("user_id", user.id)
+        .order("uploaded_at", { ascending: false }),
+    ]);
+
+    setSyllabus(
+      (syllabusRows || []).map((row) => ({
+        id: row.id,
+        table: "syllabus",
+        name: row.course_name ?? row.title,
+        extractionStatus: row.extraction_status as ExtractionStatus,
+        extractionError: row.extraction_error,
+        uploadedAt: row.uploaded_at,
+        storagePath: row.storage_path,
+        contentHash: row.content_hash,
+        treeStatus: row.tree_status as TreeStatus,
+      }))
+    );
+    setPapers(
+      (paperRows || []).map((row) => ({
+        id: row.id,
+        table: "past_papers",
+        name: `${row.subject} (${row.year})`,
+        extractionStatus: row.extraction_status as ExtractionStatus,
+        extractionError: row.extraction_error,
+        uploadedAt: row.uploaded_at,
+        storagePath: row.storage_path,
+        contentHash: row.content_hash,
+        paper: { subject: row.subject, year: row.year, examSession: row.exam_session },
+      }))
+    );
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Keep polling while the extract-document function is still working
+  const processing = [...syllabus, ...papers].some(isInProgress);
+
+  useEffect(() => {
+    if (!processing) return;
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [processing, refresh]);
+
+  return { syllabus, papers, processing, refresh };
+}
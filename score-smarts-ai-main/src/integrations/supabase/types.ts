@@ -44,66 +44,373 @@ export type Database = {
         }
         Relationships: []
       }
+      document_pages: {
+        Row: {
+          confidence: number | null
+          content: string
+          created_at: string
+          id: string
+          page_number: number
+          past_paper_id: string | null
+          source: string
+          syllabus_id: string | null
+          user_id: string
+        }
+        Insert: {
+          confidence?: number | null
+          content?: string
+          created_at?: string
+          id?: string
+          page_number: number
+          past_paper_id?: string | null
+          source?: string
+          syllabus_id?: string | null
+          user_id: string
+        }
+        Update: {
+          confidence?: number | null
+          content?: string
+          created_at?: string
+          id?: string
+          page_number?: number
+          past_paper_id?: string | null
+          source?: string
+          syllabus_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_pages_past_paper_id_fkey"
+            columns: ["past_paper_id"]
+            isOneToOne: false
+            referencedRelation: "past_papers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_pages_syllabus_id_fkey"
+            columns: ["syllabus_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       important_topics: {
         Row: {
+          analyzed_at: string | null
           created_at: string
           difficulty: string | null
           frequency: number | null
           id: string
+          papers_asked: number
+          papers_total: number
+          pin_note: string | null
+          pinned: boolean
           probability: number | null
+          probability_override: number | null
+          score_factors: Json | null
           subject: string
+          syllabus_topic_id: string | null
           topic: string
           user_id: string
+          year_counts: Json
         }
         Insert: {
+          analyzed_at?: string | null
           created_at?: string
           difficulty?: string | null
           frequency?: number | null
           id?: string
+          papers_asked?: number
+          papers_total?: number
+          pin_note?: string | null
+          pinned?: boolean
           probability?: number | null
+          probability_override?: number | null
+          score_factors?: Json | null
           subject: string
+          syllabus_topic_id?: string | null
           topic: string
           user_id: string
+          year_counts?: Json
         }
         Update: {
+          analyzed_at?: string | null
           created_at?: string
           difficulty?: string | null
           frequency?: number | null
           id?: string
+          papers_asked?: number
+          papers_total?: number
+          pin_note?: string | null
+          pinned?: boolean
           probability?: number | null
+          probability_override?: number | null
+          score_factors?: Json | null
           subject?: string
+          syllabus_topic_id?: string | null
           topic?: string
           user_id?: string
+          year_counts?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "important_topics_syllabus_topic_id_fkey"
+            columns: ["syllabus_topic_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      paper_questions: {
+        Row: {
+          choice_group: string | null
+          created_at: string
+          id: string
+          marks: number | null
+          page_number: number | null
+          past_paper_id: string
+          position: number
+          question_number: string
+          section: string | null
+          sub_part: string | null
+          text: string
+          user_id: string
+        }
+        Insert: {
+          choice_group?: string | null
+          created_at?: string
+          id?: string
+          marks?: number | null
+          page_number?: number | null
+          past_paper_id: string
+          position?: number
+          question_number: string
+          section?: string | null
+          sub_part?: string | null
+          text: string
+          user_id: string
+        }
+        Update: {
+          choice_group?: string | null
+          created_at?: string
+          id?: string
+          marks?: number | null
+          page_number?: number | null
+          past_paper_id?: string
+          position?: number
+          question_number?: string
+          section?: string | null
+          sub_part?: string | null
+          text?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paper_questions_past_paper_id_fkey"
+            columns: ["past_paper_id"]
+            isOneToOne: false
+            referencedRelation: "past_papers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       past_papers: {
         Row: {
-          file_url: string
+          content_hash: string | null
+          course_code: string | null
+          duration_minutes: number | null
+          exam_session: string | null
+          extracted_at: string | null
+          extraction_error: string | null
+          extraction_status: string
           id: string
+          max_marks: number | null
+          paper_type: string
+          storage_path: string
           subject: string
+          university: string | null
           uploaded_at: string
           user_id: string
           year: string
         }
         Insert: {
-          file_url: string
+          content_hash?: string | null
+          course_code?: string | null
+          duration_minutes?: number | null
+          exam_session?: string | null
+          extracted_at?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           id?: string
+          max_marks?: number | null
+          paper_type?: string
+          storage_path: string
           subject: string
+          university?: string | null
           uploaded_at?: string
           user_id: string
           year: string
         }
         Update: {
-          file_url?: string
+          content_hash?: string | null
+          course_code?: string | null
+          duration_minutes?: number | null
+          exam_session?: string | null
+          extracted_at?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           id?: string
+          max_marks?: number | null
+          paper_type?: string
+          storage_path?: string
           subject?: string
+          university?: string | null
           uploaded_at?: string
           user_id?: string
           year?: string
         }
         Relationships: []
       }
+      prediction_backtests: {
+        Row: {
+          created_at: string
+          held_out_years: string[]
+          id: string
+          k: number
+          marks_covered: number | null
+          missed: Json
+          parameters: Json
+          precision_at_k: number
+          predicted: Json
+          recall_at_k: number
+          stale: boolean
+          subject: string
+          training_papers: number
+          updated_at: string
+          user_id: string
+          years_held_out: number
+        }
+        Insert: {
+          created_at?: string
+          held_out_years?: string[]
+          id?: string
+          k: number
+          marks_covered?: number | null
+          missed?: Json
+          parameters: Json
+          precision_at_k: number
+          predicted?: Json
+          recall_at_k: number
+          stale?: boolean
+          subject: string
+          training_papers: number
+          updated_at?: string
+          user_id: string
+          years_held_out: number
+        }
+        Update: {
+          created_at?: string
+          held_out_years?: string[]
+          id?: string
+          k?: number
+          marks_covered?: number | null
+          missed?: Json
+          parameters?: Json
+          precision_at_k?: number
+          predicted?: Json
+          recall_at_k?: number
+          stale?: boolean
+          subject?: string
+          training_papers?: number
+          updated_at?: string
+          user_id?: string
+          years_held_out?: number
+        }
+        Relationships: []
+      }
+      prediction_settings: {
+        Row: {
+          created_at: string
+          cycle_weight: number
+          frequency_weight: number
+          id: string
+          marks_weight: number
+          min_cycle_appearances: number
+          recency_half_life: number
+          subject: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          cycle_weight?: number
+          frequency_weight?: number
+          id?: string
+          marks_weight?: number
+          min_cycle_appearances?: number
+          recency_half_life?: number
+          subject: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          cycle_weight?: number
+          frequency_weight?: number
+          id?: string
+          marks_weight?: number
+          min_cycle_appearances?: number
+          recency_half_life?: number
+          subject?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      question_topics: {
+        Row: {
+          created_at: string
+          id: string
+          question_id: string
+          score: number
+          topic_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          question_id: string
+          score: number
+          topic_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          question_id?: string
+          score?: number
+          topic_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_topics_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "paper_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_topics_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       study_notes: {
         Row: {
           content: string
@@ -136,34 +443,216 @@ export type Database = {
       }
       syllabus: {
         Row: {
-          file_url: string
+          content_hash: string | null
+          course_name: string | null
+          extracted_at: string | null
+          extraction_error: string | null
+          extraction_status: string
           id: string
+          storage_path: string
           title: string
+          tree_status: string
           uploaded_at: string
           user_id: string
         }
         Insert: {
-          file_url: string
+          content_hash?: string | null
+          course_name?: string | null
+          extracted_at?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           id?: string
+          storage_path: string
           title: string
+          tree_status?: string
           uploaded_at?: string
           user_id: string
         }
         Update: {
-          file_url?: string
+          content_hash?: string | null
+          course_name?: string | null
+          extracted_at?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           id?: string
+          storage_path?: string
           title?: string
+          tree_status?: string
           uploaded_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      syllabus_topics: {
+        Row: {
+          created_at: string
+          id: string
+          parent_id: string | null
+          position: number
+          title: string
+          unit_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          position?: number
+          title: string
+          unit_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          position?: number
+          title?: string
+          unit_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "syllabus_topics_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_topics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "syllabus_topics_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      syllabus_units: {
+        Row: {
+          created_at: string
+          hours: number | null
+          id: string
+          position: number
+          syllabus_id: string
+          title: string
+          user_id: string
+          weightage: number | null
+        }
+        Insert: {
+          created_at?: string
+          hours?: number | null
+          id?: string
+          position?: number
+          syllabus_id: string
+          title: string
+          user_id: string
+          weightage?: number | null
+        }
+        Update: {
+          created_at?: string
+          hours?: number | null
+          id?: string
+          position?: number
+          syllabus_id?: string
+          title?: string
+          user_id?: string
+          weightage?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "syllabus_units_syllabus_id_fkey"
+            columns: ["syllabus_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_aliases: {
+        Row: {
+          alias: string
+          alias_key: string
+          created_at: string
+          id: string
+          mentions: number
+          subject: string
+          topic_id: string
+          user_id: string
+        }
+        Insert: {
+          alias: string
+          alias_key: string
+          created_at?: string
+          id?: string
+          mentions?: number
+          subject: string
+          topic_id: string
+          user_id: string
+        }
+        Update: {
+          alias?: string
+          alias_key?: string
+          created_at?: string
+          id?: string
+          mentions?: number
+          subject?: string
+          topic_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_aliases_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "important_topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_analysis_state: {
+        Row: {
+          analyzed_at: string
+          data_signature: string
+          user_id: string
+        }
+        Insert: {
+          analyzed_at?: string
+          data_signature: string
+          user_id: string
+        }
+        Update: {
+          analyzed_at?: string
+          data_signature?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      find_orphaned_uploads: {
+        Args: { min_age?: unknown }
+        Returns: {
+          bucket_id: string
+          name: string
+        }[]
+      }
+      find_uploads_missing_objects: {
+        Args: never
+        Returns: {
+          id: string
+          table_name: string
+        }[]
+      }
+      replace_topic_analysis: {
+        Args: { analyzed_topics: Json; data_signature: string; topic_matches: Json }
+        Returns: undefined
+      }
+      topic_analysis_is_stale: { Args: never; Returns: boolean }
+      topic_analysis_signature: { Args: never; Returns: string }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,8 @@
+/** Postgres error code for a duplicate key. */
+export const UNIQUE_VIOLATION = "23505";
+
+/** Subjects are typed by hand, so names that differ only in case or surrounding spaces are one subject. */
+export const subjectKey = (name: string) => name.trim().toLowerCase();
+
+/** Exam years are text ("2021", "2021-22"), so they sort numerically rather than alphabetically. */
+export const byYear = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
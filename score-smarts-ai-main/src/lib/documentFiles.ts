@@ -0,0 +1,159 @@
+import { supabase } from "@/integrations/supabase/client";
+import { analyzeStoredPages, markExtractionFailed, pageForeignKeys, type DocumentTable } from "@/lib/documentPages";
+import { DOCUMENT_BUCKETS } from "@/lib/fileAccess";
+import { guessPaperMetadata, paperMetadataToRow, type PaperMetadata } from "@/lib/paperMetadata";
+
+export interface StoredDocument {
+  id: string;
+  table: DocumentTable;
+  title: string;
+  storagePath: string;
+}
+
+/** A stored document as listed in the My Files view. */
+export interface FileEntry extends StoredDocument {
+  fileName: string;
+  uploadedAt: string;
+  extractionStatus: string;
+  courseName?: string | null;
+  paper?: PaperMetadata;
+}
+
+/** Objects are stored as `<user id>/<uuid>-<original name>`. */
+export function originalFileName(path: string): string {
+  const name = path.split("/").pop() ?? path;
+  return name.replace(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/i, "");
+}
+
+/** Deletes the row (cascading to its pages and questions) and then its storage object. */
+export async function deleteDocument(doc: StoredDocument) {
+  const bucket = DOCUMENT_BUCKETS[doc.table];
+
+  const { error: deleteError } = await supabase.from(doc.table).delete().eq("id", doc.id);
+  if (deleteError) throw deleteError;
+
+  const { error: removeError } = await supabase.storage.from(bucket).remove([doc.storagePath]);
+  if (removeError) throw removeError;
+}
+
+// Mirrors the buckets' allowed_mime_types, so a move is refused before the copy would be
+const BUCKET_MIME_TYPES: Record<DocumentTable, string[]> = {
+  syllabus: [
+    "application/pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "text/markdown",
+    "text/plain",
+  ],
+  past_papers: ["application/pdf", "image/png", "image/jpeg"],
+};
+
+const TABLE_LABELS: Record<DocumentTable, string> = {
+  syllabus: "syllabus",
+  past_papers: "question papers",
+};
+
+/** The content type the object was stored with, which is what a bucket's allowlist checks. */
+async function storedMimeType(bucket: string, path: string): Promise<string | null> {
+  const slash = path.lastIndexOf("/");
+  const name = path.slice(slash + 1);
+  const { data, error } = await supabase.storage.from(bucket).list(path.slice(0, slash), { search: name });
+  if (error) throw error;
+  return data.find((object) => object.name === name)?.metadata?.mimetype ?? null;
+}
+
+/**
+ * Moves a document between the syllabus and question-paper categories: the
+ * object is copied into the other bucket and a new row is written there. Text
+ * that was already extracted is carried over and re-analyzed for the new
+ * category, since images and Word files can only be read in the browser at
+ * upload time; a PDF that never got that far is extracted again by the
+ * trigger. The old row and object go last so a failure part-way leaves the
+ * original untouched.
+ */
+export async function moveDocument(doc: StoredDocument, userId: string) {
+  const fromBucket = DOCUMENT_BUCKETS[doc.table];
+  const toTable: DocumentTable = doc.table === "syllabus" ? "past_papers" : "syllabus";
+  const toBucket = DOCUMENT_BUCKETS[toTable];
+  const path = doc.storagePath;
+
+  const mimeType = await storedMimeType(fromBucket, path);
+  if (!mimeType || !BUCKET_MIME_TYPES[toTable].includes(mimeType)) {
+    throw new Error(`This file type can't be filed under ${TABLE_LABELS[toTable]}`);
+  }
+
+  const [{ data: source, error: fetchError }, { data: pages, error: pagesError }] = await Promise.all([
+    supabase.from(doc.table).select("content_hash, extraction_status").eq("id", doc.id).single(),
+    supabase
+      .from("document_pages")
+      .select("page_number, content, confidence, source")
+      .eq(pageForeignKeys[doc.table], doc.id)
+      .order("page_number"),
+  ]);
+  if (fetchError) throw fetchError;
+  if (pagesError) throw pagesError;
+
+  const carryPages = source.extraction_status === "completed" && pages.length > 0;
+  // "pending" is what fires the server-side extraction trigger, which only reads PDFs
+  const extraction_status = carryPages
+    ? "processing"
+    : mimeType === "application/pdf"
+      ? "pending"
+      : "failed";
+  const extraction_error =
+    extraction_status === "failed" ? "The text could not be carried over; upload the file again to read it" : null;
+
+  const { error: copyError } = await supabase.storage
+    .from(fromBucket)
+    .copy(path, path, { destinationBucket: toBucket });
+  if (copyError) throw copyError;
+
+  const fileName = originalFileName(path);
+
+  const { data: moved, error: insertError } =
+    toTable === "syllabus"
+      ? await supabase
+          .from("syllabus")
+          .insert({
+            user_id: userId,
+            title: fileName,
+            storage_path: path,
+            content_hash: source.content_hash,
+            extraction_status,
+            extraction_error,
+          })
+          .select("id")
+          .single()
+      : await supabase
+          .from("past_papers")
+          .insert({
+            user_id: userId,
+            ...paperMetadataToRow(guessPaperMetadata(fileName)),
+            storage_path: path,
+            content_hash: source.content_hash,
+            extraction_status,
+            extraction_error,
+          })
+          .select("id")
+          .single();
+
+  if (insertError) {
+    await supabase.storage.from(toBucket).remove([path]);
+    throw insertError;
+  }
+
+  if (carryPages) {
+    const { error: copyPagesError } = await supabase.from("document_pages").insert(
+      pages.map((page) => ({ ...page, user_id: userId, [pageForeignKeys[toTable]]: moved.id }))
+    );
+    if (copyPagesError) {
+      await markExtractionFailed(toTable, moved.id, copyPagesError.message);
+    } else {
+      // A failed analysis is recorded on the row; the move itself still went through
+      await analyzeStoredPages(toTable, moved.id).catch((error) =>
+        console.error("Failed to analyze moved document:", error)
+      );
+    }
+  }
+
+  await deleteDocument(doc);
+}
@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type DocumentTable = "syllabus" | "past_papers";
+
+export interface ExtractedPage {
+  pageNumber: number;
+  content: string;
+  confidence?: number;
+}
+
+export const pageForeignKeys = {
+  syllabus: "syllabus_id",
+  past_papers: "past_paper_id",
+} as const;
+
+/**
+ * Stores text extracted in the browser in the same `document_pages` store the
+ * extract-document function fills for PDFs, runs the same server-side analysis
+ * over it, then marks the document ready.
+ */
+export async function saveExtractedPages(
+  table: DocumentTable,
+  documentId: string,
+  userId: string,
+  pages: ExtractedPage[],
+  source: "ocr" | "document_text"
+) {
+  const { error } = await supabase.from("document_pages").insert(
+    pages.map((page) => ({
+      user_id: userId,
+      [pageForeignKeys[table]]: documentId,
+      page_number: page.pageNumber,
+      content: page.content,
+      confidence: page.confidence ?? null,
+      source,
+    }))
+  );
+
+  if (error) {
+    await markExtractionFailed(table, documentId, error.message);
+    throw error;
+  }
+
+  await analyzeStoredPages(table, documentId);
+}
+
+/** Runs the server-side analysis over a document's stored pages and marks it ready. */
+export async function analyzeStoredPages(table: DocumentTable, documentId: string) {
+  const { error: analyzeError } = await supabase.functions.invoke("analyze-document", {
+    body: { table, id: documentId },
+  });
+
+  if (analyzeError) {
+    await markExtractionFailed(table, documentId, analyzeError.message);
+    throw analyzeError;
+  }
+
+  await supabase
+    .from(table)
+    .update({ extraction_status: "completed", extracted_at: new Date().toISOString() })
+    .eq("id", documentId);
+}
+
+export async function markExtractionFailed(table: DocumentTable, documentId: string, message: string) {
+  await supabase
+    .from(table)
+    .update({ extraction_status: "failed", extraction_error: message })
+    .eq("id", documentId);
+}
@@ -0,0 +1,163 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { DocumentTable } from "@/lib/documentPages";
+import { deleteDocument, type StoredDocument } from "@/lib/documentFiles";
+import { hashFile } from "@/lib/duplicates";
+import { DOCUMENT_BUCKETS } from "@/lib/fileAccess";
+import { paperMetadataToRow, type PaperMetadata } from "@/lib/paperMetadata";
+import { uploadResumable } from "@/lib/resumableUpload";
+import { UNIQUE_VIOLATION } from "@/lib/common";
+
+/** Large scans saturate the connection; a few at a time keeps every bar moving. */
+const MAX_CONCURRENT_UPLOADS = 3;
+
+export interface DocumentUpload {
+  table: DocumentTable;
+  file: File;
+  /** Required for past papers */
+  metadata?: PaperMetadata;
+  /** Text is extracted in the browser (OCR), so the server-side trigger is skipped */
+  extractInBrowser?: boolean;
+  /** SHA-256 of the file, if it was already computed for duplicate checks */
+  contentHash?: string;
+  /** An existing document this upload takes the place of */
+  replaces?: StoredDocument;
+}
+
+export type UploadOutcome =
+  | { status: "uploaded"; documentId: string }
+  | { status: "failed"; error: string };
+
+/**
+ * Uploads the object and writes its row as one unit: if the row cannot be
+ * written the object is removed again, so a failure never leaves a file in
+ * storage that nothing points at. A replaced document is only deleted once
+ * the new row is written; until then it merely gives up its content hash, and
+ * gets it back if the write fails. Returns the new row id.
+ */
+export async function uploadDocument(
+  upload: DocumentUpload,
+  userId: string,
+  onProgress?: (percent: number) => void
+): Promise<string> {
+  const bucket = DOCUMENT_BUCKETS[upload.table];
+  const content_hash = upload.contentHash ?? (await hashFile(upload.file));
+  const storagePath = await uploadResumable(
+    bucket,
+    `${userId}/${crypto.randomUUID()}-${upload.file.name}`,
+    upload.file,
+    userId,
+    onProgress
+  );
+
+  const rollBack = async () => {
+    const { error: removeError } = await supabase.storage.from(bucket).remove([storagePath]);
+    // Anything left behind here is picked up by the cleanup-orphans function
+    if (removeError) console.error("Failed to roll back upload:", removeError);
+  };
+
+  // The replacement usually has the same content, which the unique hash index would reject
+  const setReplacedHash = async (hash: string | null) => {
+    const { error } = await supabase
+      .from(upload.replaces!.table)
+      .update({ content_hash: hash })
+      .eq("id", upload.replaces!.id);
+    if (error) throw error;
+  };
+
+  let replacedHash: string | null = null;
+  if (upload.replaces) {
+    try {
+      const { data: replaced, error: fetchError } = await supabase
+        .from(upload.replaces.table)
+        .select("content_hash")
+        .eq("id", upload.replaces.id)
+        .single();
+      if (fetchError) throw fetchError;
+      replacedHash = replaced.content_hash;
+      await setReplacedHash(null);
+    } catch (error) {
+      await rollBack();
+      throw error;
+    }
+  }
+
+  const extraction_status = upload.extractInBrowser ? "processing" : "pending";
+  const { data, error: insertError } =
+    upload.table === "syllabus"
+      ? await supabase
+          .from("syllabus")
+          .insert({
+            user_id: userId,
+            title: upload.file.name,
+            storage_path: storagePath,
+            content_hash,
+            extraction_status,
+          })
+          .select("id")
+          .single()
+      : await supabase
+          .from("past_papers")
+          .insert({
+            user_id: userId,
+            ...paperMetadataToRow(upload.metadata!),
+            storage_path: storagePath,
+            content_hash,
+            extraction_status,
+          })
+          .select("id")
+          .single();
+
+  if (insertError) {
+    await rollBack();
+    if (upload.replaces) {
+      await setReplacedHash(replacedHash).catch((error) => console.error("Failed to restore replaced document:", error));
+    }
+    throw insertError.code === UNIQUE_VIOLATION ? new Error("This file has already been uploaded") : insertError;
+  }
+
+  if (upload.replaces) {
+    try {
+      await deleteDocument(upload.replaces);
+    } catch (error) {
+      // The new document is in place; the original just lingers until deleted by hand
+      console.error("Failed to delete replaced document:", error);
+    }
+  }
+
+  return data.id;
+}
+
+/**
+ * Uploads every file independently, at most MAX_CONCURRENT_UPLOADS at a time,
+ * and reports how each one went in input order. `onProgress` and `onSettled`
+ * receive the index of the upload they refer to.
+ */
+export async function uploadDocuments(
+  uploads: DocumentUpload[],
+  userId: string,
+  callbacks: {
+    onProgress?: (index: number, percent: number) => void;
+    onSettled?: (index: number, outcome: UploadOutcome) => void;
+  } = {}
+): Promise<UploadOutcome[]> {
+  const outcomes: UploadOutcome[] = new Array(uploads.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < uploads.length) {
+      const index = next++;
+      try {
+        const documentId = await uploadDocument(uploads[index], userId, (percent) =>
+          callbacks.onProgress?.(index, percent)
+        );
+        outcomes[index] = { status: "uploaded", documentId };
+      } catch (error) {
+        outcomes[index] = { status: "failed", error: error instanceof Error ? error.message : "Upload failed" };
+      }
+      callbacks.onSettled?.(index, outcomes[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, uploads.length) }, worker));
+  return outcomes;
+}
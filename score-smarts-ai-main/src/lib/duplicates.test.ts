@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { findDuplicates, hashFile, type ExistingDocument, type QueuedDocument } from "@/lib/duplicates";
+import { guessPaperMetadata } from "@/lib/paperMetadata";
+
+const existing = (id: string, changes: Partial<ExistingDocument> = {}): ExistingDocument => ({
+  id,
+  table: "past_papers",
+  title: id,
+  storagePath: `user/${id}.pdf`,
+  contentHash: null,
+  ...changes,
+});
+
+const queued = (id: string, changes: Partial<QueuedDocument> = {}): QueuedDocument => ({
+  id,
+  name: `${id}.pdf`,
+  category: "question-paper",
+  ...changes,
+});
+
+describe("hashFile", () => {
+  it("hashes the contents, not the name", async () => {
+    const a = await hashFile(new File(["same bytes"], "a.pdf"));
+    const b = await hashFile(new File(["same bytes"], "b.pdf"));
+
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(a).toBe(b);
+    expect(await hashFile(new File(["other bytes"], "a.pdf"))).not.toBe(a);
+  });
+});
+
+describe("findDuplicates", () => {
+  it("matches an uploaded document with the same hash in the same table", () => {
+    const paper = existing("paper", { contentHash: "abc" });
+    const syllabus = existing("syllabus", { table: "syllabus", contentHash: "def" });
+
+    const matches = findDuplicates(
+      [queued("copy", { contentHash: "abc" }), queued("syllabus as paper", { contentHash: "def" })],
+      [paper, syllabus]
+    );
+
+    expect(matches.get("copy")).toEqual({ kind: "exact", existing: paper });
+    expect(matches.has("syllabus as paper")).toBe(false);
+  });
+
+  it("matches a file queued twice against the first copy", () => {
+    const matches = findDuplicates(
+      [queued("first", { contentHash: "abc" }), queued("second", { contentHash: "abc" })],
+      []
+    );
+
+    expect([...matches]).toEqual([["second", { kind: "queued", otherName: "first.pdf" }]]);
+  });
+
+  it("matches a different file for the same subject, year and session", () => {
+    const stored = existing("stored", { paper: { subject: "Data Structures", year: "2021", examSession: "Dec" } });
+
+    const matches = findDuplicates(
+      [
+        queued("same paper", { contentHash: "new", metadata: guessPaperMetadata("data structures Dec 2021.pdf") }),
+        queued("no session", { metadata: guessPaperMetadata("Data Structures 2021.pdf") }),
+        queued("other session", { metadata: guessPaperMetadata("Data Structures May 2021.pdf") }),
+        queued("other year", { metadata: guessPaperMetadata("Data Structures Dec 2022.pdf") }),
+      ],
+      [stored]
+    );
+
+    expect(matches.get("same paper")).toEqual({ kind: "similar", existing: stored });
+    expect(matches.get("no session")).toEqual({ kind: "similar", existing: stored });
+    expect(matches.has("other session")).toBe(false);
+    expect(matches.has("other year")).toBe(false);
+  });
+
+  it("prefers an exact match over a similar one", () => {
+    const stored = existing("stored", { contentHash: "abc", paper: { subject: "DSA", year: "2021", examSession: null } });
+
+    const matches = findDuplicates([queued("copy", { contentHash: "abc", metadata: guessPaperMetadata("DSA 2021.pdf") })], [stored]);
+
+    expect(matches.get("copy")?.kind).toBe("exact");
+  });
+});
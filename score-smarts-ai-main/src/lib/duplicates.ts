@@ -0,0 +1,74 @@
+import type { StoredDocument } from "@/lib/documentFiles";
+import type { PaperMetadata } from "@/lib/paperMetadata";
+
+/** An already uploaded document, as far as duplicate detection cares. */
+export interface ExistingDocument extends StoredDocument {
+  contentHash: string | null;
+  paper?: Pick<PaperMetadata, "subject" | "year" | "examSession">;
+}
+
+/** A file waiting in the upload queue. */
+export interface QueuedDocument {
+  id: string;
+  name: string;
+  category: "syllabus" | "question-paper";
+  contentHash?: string;
+  metadata?: PaperMetadata;
+}
+
+export type DuplicateMatch =
+  /** Byte-for-byte the same as something already uploaded */
+  | { kind: "exact"; existing: ExistingDocument }
+  /** Byte-for-byte the same as a file earlier in the queue */
+  | { kind: "queued"; otherName: string }
+  /** A different file for the same subject, year and session */
+  | { kind: "similar"; existing: ExistingDocument };
+
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Sessions only tell papers apart when both sides know theirs
+const isSamePaper = (paper: ExistingDocument["paper"], metadata: PaperMetadata) =>
+  !!paper &&
+  sameText(paper.subject, metadata.subject) &&
+  paper.year === metadata.year &&
+  (!paper.examSession || !metadata.examSession || paper.examSession === metadata.examSession);
+
+/**
+ * Flags queued files that would store a paper twice. Files still being hashed
+ * can only be matched on their paper details.
+ */
+export function findDuplicates(queue: QueuedDocument[], existing: ExistingDocument[]): Map<string, DuplicateMatch> {
+  const matches = new Map<string, DuplicateMatch>();
+  const firstByHash = new Map<string, QueuedDocument>();
+
+  for (const file of queue) {
+    const table = file.category === "syllabus" ? "syllabus" : "past_papers";
+
+    if (file.contentHash) {
+      const exact = existing.find((doc) => doc.table === table && doc.contentHash === file.contentHash);
+      if (exact) {
+        matches.set(file.id, { kind: "exact", existing: exact });
+        continue;
+      }
+
+      const earlier = firstByHash.get(file.contentHash);
+      if (earlier) {
+        matches.set(file.id, { kind: "queued", otherName: earlier.name });
+        continue;
+      }
+      firstByHash.set(file.contentHash, file);
+    }
+
+    if (file.metadata) {
+      const similar = existing.find((doc) => doc.table === "past_papers" && isSamePaper(doc.paper, file.metadata!));
+      if (similar) matches.set(file.id, { kind: "similar", existing: similar });
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { DocumentTable } from "@/lib/documentPages";
+
+export const DOCUMENT_BUCKETS: Record<DocumentTable, string> = {
+  syllabus: "syllabus",
+  past_papers: "past-papers",
+};
+
+/** Signed URLs are issued on demand, so they only need to outlive the click that asked for them. */
+const SIGNED_URL_TTL_SECONDS = 60;
+
+interface SignedUrlOptions {
+  /** Ask the browser to save the file under this name instead of displaying it */
+  download?: string;
+}
+
+/**
+ * Both buckets are private: rows keep only the object path and anyone opening
+ * a file gets a short-lived signed URL, checked against the storage policies.
+ */
+export async function getSignedFileUrl(
+  table: DocumentTable,
+  storagePath: string,
+  options: SignedUrlOptions = {}
+): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENT_BUCKETS[table])
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, options.download ? { download: options.download } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
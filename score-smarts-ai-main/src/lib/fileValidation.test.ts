@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { MAX_FILE_SIZE_MB, MAX_PDF_PAGES, validateFile } from "@/lib/fileValidation";
+
+const fileOf = (contents: number[] | string, name: string, type = "") =>
+  new File([typeof contents === "string" ? contents : new Uint8Array(contents)], name, { type });
+
+async function pdfWithPages(pages: number, name = "paper.pdf") {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) pdf.addPage();
+  return new File([await pdf.save()], name, { type: "application/pdf" });
+}
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00];
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00];
+const DOCX = [0x50, 0x4b, 0x03, 0x04, 0x14, 0x00];
+const DOC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00];
+
+describe("validateFile", () => {
+  it("identifies files by their contents rather than their name", async () => {
+    expect(await validateFile(fileOf(PNG, "scan.pdf", "application/pdf"), "question-paper")).toEqual({
+      valid: true,
+      kind: "image",
+      mimeType: "image/png",
+    });
+    expect(await validateFile(fileOf(JPEG, "scan.png"), "question-paper")).toMatchObject({ mimeType: "image/jpeg" });
+    expect(await validateFile(fileOf(DOCX, "syllabus"), "syllabus")).toMatchObject({ kind: "word" });
+  });
+
+  it("accepts Markdown and text files that decode as UTF-8", async () => {
+    expect(await validateFile(fileOf("# Unit 1: Trees\n", "syllabus.md"), "notes")).toEqual({
+      valid: true,
+      kind: "text",
+      mimeType: "text/markdown",
+    });
+    expect(await validateFile(fileOf([0x68, 0x00, 0x69], "notes.txt"), "notes")).toEqual({
+      valid: false,
+      error: "Not a Word document or Markdown/text file (unrecognised file contents)",
+    });
+  });
+
+  it("rejects kinds the category does not take", async () => {
+    expect(await validateFile(fileOf(PNG, "scan.png"), "syllabus")).toEqual({
+      valid: false,
+      error: "Not a PDF or Word document or Markdown/text file",
+    });
+  });
+
+  it("turns away legacy .doc files with the formats the category takes", async () => {
+    expect(await validateFile(fileOf(DOC, "syllabus.doc"), "syllabus")).toEqual({
+      valid: false,
+      error: "Old .doc files can't be read. Save it as .docx or PDF and upload it again.",
+    });
+    expect(await validateFile(fileOf(DOC, "notes.doc"), "notes")).toEqual({
+      valid: false,
+      error: "Old .doc files can't be read. Save it as .docx and upload it again.",
+    });
+  });
+
+  it("rejects empty and oversized files", async () => {
+    const oversized = fileOf(PNG, "scan.png");
+    Object.defineProperty(oversized, "size", { value: MAX_FILE_SIZE_MB * 1024 * 1024 + 1 });
+
+    expect(await validateFile(fileOf([], "scan.png"), "question-paper")).toEqual({ valid: false, error: "The file is empty" });
+    expect(await validateFile(oversized, "question-paper")).toEqual({
+      valid: false,
+      error: `Files can be at most ${MAX_FILE_SIZE_MB} MB`,
+    });
+  });
+
+  it("counts the pages of a PDF and enforces the page limit", async () => {
+    expect(await validateFile(await pdfWithPages(3), "question-paper")).toEqual({
+      valid: true,
+      kind: "pdf",
+      mimeType: "application/pdf",
+      pageCount: 3,
+    });
+    expect(await validateFile(await pdfWithPages(MAX_PDF_PAGES + 1), "question-paper")).toEqual({
+      valid: false,
+      error: `The PDF has ${MAX_PDF_PAGES + 1} pages; the limit is ${MAX_PDF_PAGES}`,
+    });
+  });
+
+  it("rejects a PDF that cannot be parsed", async () => {
+    expect(await validateFile(fileOf("%PDF-1.7\nnot really a pdf", "paper.pdf"), "question-paper")).toEqual({
+      valid: false,
+      error: "The PDF is damaged and cannot be read",
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { EncryptedPDFError, PDFDocument } from "pdf-lib";
+
+// Keep in step with the bucket limits and supabase/functions/_shared/documents.ts
+export const MAX_FILE_SIZE_MB = 100;
+export const MAX_PDF_PAGES = 300;
+
+export type FileKind = "pdf" | "image" | "word" | "text";
+
+export type ValidationCategory = "syllabus" | "question-paper" | "notes";
+
+export type FileCheck =
+  | { valid: true; kind: FileKind; mimeType: string; pageCount?: number }
+  | { valid: false; error: string };
+
+interface Signature {
+  kind: FileKind;
+  mimeType: string;
+  bytes: number[];
+}
+
+// Recognised only to turn it away: nothing in the browser can read its text
+const LEGACY_WORD_MIME_TYPE = "application/msword";
+
+const SIGNATURES: Signature[] = [
+  { kind: "pdf", mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { kind: "image", mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { kind: "image", mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  // Legacy .doc (OLE compound file)
+  { kind: "word", mimeType: LEGACY_WORD_MIME_TYPE, bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  // .docx is a ZIP container
+  {
+    kind: "word",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+  },
+];
+
+// Plain text has no magic bytes, so it is recognised by extension and checked to decode as UTF-8
+const TEXT_MIME_TYPES: Record<string, string> = {
+  md: "text/markdown",
+  markdown: "text/markdown",
+  txt: "text/plain",
+};
+
+const ACCEPTED_KINDS: Record<ValidationCategory, FileKind[]> = {
+  syllabus: ["pdf", "word", "text"],
+  "question-paper": ["pdf", "image"],
+  notes: ["word", "text"],
+};
+
+const KIND_LABELS: Record<FileKind, string> = {
+  pdf: "PDF",
+  image: "PNG/JPG image",
+  word: "Word document",
+  text: "Markdown/text file",
+};
+
+/** Identifies a file from its first bytes rather than its name or the browser's guess. */
+async function sniffFileType(file: File): Promise<Omit<Signature, "bytes"> | null> {
+  const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  const signature = SIGNATURES.find((candidate) => candidate.bytes.every((byte, index) => header[index] === byte));
+  if (signature) return signature;
+
+  const textType = TEXT_MIME_TYPES[file.name.split(".").pop()?.toLowerCase() ?? ""];
+  if (textType && (await isPlainText(file))) return { kind: "text", mimeType: textType };
+  return null;
+}
+
+async function isPlainText(file: File) {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(await file.arrayBuffer());
+    return !text.includes("\0");
+  } catch {
+    return false;
+  }
+}
+
+async function inspectPdf(file: File): Promise<{ pageCount: number } | { error: string }> {
+  try {
+    const pdf = await PDFDocument.load(await file.arrayBuffer(), { updateMetadata: false });
+    const pageCount = pdf.getPageCount();
+    if (pageCount === 0) return { error: "The PDF has no pages" };
+    return { pageCount };
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      return { error: "The PDF is password-protected. Remove the password and upload it again." };
+    }
+    return { error: "The PDF is damaged and cannot be read" };
+  }
+}
+
+/**
+ * Checks a file before it is queued for upload: real type from its magic
+ * bytes, the type allowed for its category (never legacy .doc), size, and
+ * for PDFs that they open without a password and stay within the page limit.
+ */
+export async function validateFile(file: File, category: ValidationCategory): Promise<FileCheck> {
+  if (file.size === 0) return { valid: false, error: "The file is empty" };
+  if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+    return { valid: false, error: `Files can be at most ${MAX_FILE_SIZE_MB} MB` };
+  }
+
+  const signature = await sniffFileType(file);
+  const accepted = ACCEPTED_KINDS[category];
+  if (!signature || !accepted.includes(signature.kind)) {
+    return {
+      valid: false,
+      error: `Not a ${accepted.map((kind) => KIND_LABELS[kind]).join(" or ")}${signature ? "" : " (unrecognised file contents)"}`,
+    };
+  }
+
+  if (signature.mimeType === LEGACY_WORD_MIME_TYPE) {
+    const alternatives = accepted.includes("pdf") ? ".docx or PDF" : ".docx";
+    return { valid: false, error: `Old .doc files can't be read. Save it as ${alternatives} and upload it again.` };
+  }
+
+  if (signature.kind !== "pdf") {
+    return { valid: true, kind: signature.kind, mimeType: signature.mimeType };
+  }
+
+  const pdf = await inspectPdf(file);
+  if ("error" in pdf) return { valid: false, error: pdf.error };
+  if (pdf.pageCount > MAX_PDF_PAGES) {
+    return { valid: false, error: `The PDF has ${pdf.pageCount} pages; the limit is ${MAX_PDF_PAGES}` };
+  }
+
+  return { valid: true, kind: "pdf", mimeType: signature.mimeType, pageCount: pdf.pageCount };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import { computeMarksWeightage, marksStat, type MarksPaper, type WeightedTopic } from "@/lib/marksWeightage";
+import type { TopicQuestion } from "@/lib/topicTrends";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const question = (topicId: string, questionId: string, paperId: string, marks: number | null): TopicQuestion => ({
+  topicId,
+  questionId,
+  paperId,
+  year: paperId.replace(/\D/g, ""),
+  label: "Q1",
+  text: `Question ${questionId}`,
+  marks,
+});
+
+const papers: MarksPaper[] = [
+  { id: "p2020", year: "2020", totalMarks: 100 },
+  { id: "p2022", year: "2022", totalMarks: null },
+];
+
+const topics: WeightedTopic[] = [
+  { id: "trees", name: "Trees", unit: "Unit 1" },
+  { id: "bst", name: "Binary Search Trees", unit: "Unit 1" },
+  { id: "graphs", name: "Graphs", unit: "Unit 2" },
+  { id: "custom", name: "Custom", unit: null },
+];
+
+const questions = [
+  question("trees", "q1", "p2020", 10),
+  question("bst", "q1", "p2020", 10),
+  question("trees", "q2", "p2022", 6),
+  question("graphs", "q3", "p2022", 4),
+  question("graphs", "q4", "p2019", 100),
+];
+
+describe("marksStat", () => {
+  it("averages marks over every paper and weights recent papers more for the expectation", () => {
+    expect(marksStat(new Set(["trees"]), papers, questions, 2)).toEqual({
+      mean: 8,
+      variance: 4,
+      stdDev: 2,
+      expected: 7.3,
+      papersAsked: 2,
+      papersTotal: 2,
+    });
+  });
+
+  it("counts papers that skipped the topics as 0 and ignores other papers' questions", () => {
+    expect(marksStat(new Set(["graphs"]), papers, questions, 2)).toMatchObject({
+      mean: 2,
+      expected: 2.7,
+      papersAsked: 1,
+    });
+  });
+
+  it("treats a paper without a usable year as the latest", () => {
+    const undated = [...papers, { id: "p-undated", year: "unknown", totalMarks: null }];
+
+    expect(marksStat(new Set(["trees"]), undated, [...questions, question("trees", "q5", "p-undated", 12)], 2)).toMatchObject({
+      mean: 9.3,
+      expected: 9.2,
+    });
+  });
+});
+
+describe("computeMarksWeightage", () => {
+  it("weights units and topics, heaviest expected first, counting a question once per unit", () => {
+    const weightage = computeMarksWeightage(topics, papers, questions, 2);
+
+    expect(weightage.units.map(({ key, expected, topicIds }) => [key, expected, topicIds])).toEqual([
+      ["unit:Unit 1", 7.3, ["trees", "bst"]],
+      ["unit:Unit 2", 2.7, ["graphs"]],
+    ]);
+    expect(weightage.topics.map(({ name, expected }) => [name, expected])).toEqual([
+      ["Trees", 7.3],
+      ["Binary Search Trees", 3.3],
+      ["Graphs", 2.7],
+      ["Custom", 0],
+    ]);
+  });
+
+  it("expects a paper's total marks only from papers that know theirs", () => {
+    expect(computeMarksWeightage(topics, papers, questions, 2).paperMarks).toBe(100);
+    expect(computeMarksWeightage(topics, [papers[1]], questions, 2).paperMarks).toBeNull();
+  });
+});
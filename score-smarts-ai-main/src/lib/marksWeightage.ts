@@ -0,0 +1,169 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_PREDICTION_PARAMETERS } from "@/lib/predictionModel";
+import { loadPredictionSettings } from "@/lib/predictionSettings";
+import { loadTopicQuestions, type TopicQuestion } from "@/lib/topicTrends";
+import { subjectKey } from "@/lib/common";
+
+// How many marks each syllabus unit and topic is worth per paper. Questions
+// come from the analysis' question ↔ topic matches; a question matched to two
+// topics of the same unit counts once for the unit.
+
+export interface MarksPaper {
+  id: string;
+  year: string;
+  /** The paper's printed maximum, else the sum of its question marks */
+  totalMarks: number | null;
+}
+
+export interface WeightedTopic {
+  id: string;
+  name: string;
+  unit: string | null;
+}
+
+export interface MarksStat {
+  /** Average marks per paper, counting papers that skipped it as 0 */
+  mean: number;
+  /** Population variance of the marks per paper */
+  variance: number;
+  stdDev: number;
+  /** Recency-weighted marks per paper: what the next paper is likely to give it */
+  expected: number;
+  papersAsked: number;
+  papersTotal: number;
+}
+
+export interface MarksWeight extends MarksStat {
+  key: string;
+  name: string;
+  /** Topic ids the row covers; one for a topic, all of a unit's for a unit */
+  topicIds: string[];
+}
+
+export interface MarksWeightage {
+  /** Expected marks of a whole paper, if known */
+  paperMarks: number | null;
+  units: MarksWeight[];
+  topics: MarksWeight[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** Weights each paper by recency, so the expectation follows how the paper is set today. */
+function recencyWeights(papers: MarksPaper[], halfLife: number): number[] {
+  const years = papers.map((paper) => Number.parseInt(paper.year, 10));
+  const latest = Math.max(...years.filter((year) => !Number.isNaN(year)));
+  // Papers without a usable year count as if they were the latest
+  return years.map((year) => (Number.isNaN(year) || !Number.isFinite(latest) ? 1 : 0.5 ** ((latest - year) / halfLife)));
+}
+
+function weightedMean(values: number[], weights: number[]) {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return total > 0 ? values.reduce((sum, value, index) => sum + value * weights[index], 0) / total : 0;
+}
+
+/** Marks per paper for a set of topics, with each question counted once. */
+export function marksStat(
+  topicIds: Set<string>,
+  papers: MarksPaper[],
+  questions: TopicQuestion[],
+  halfLife: number
+): MarksStat {
+  const marksByPaper = new Map(papers.map((paper) => [paper.id, 0]));
+  const asked = new Set<string>();
+  const seen = new Set<string>();
+
+  for (const question of questions) {
+    if (!topicIds.has(question.topicId) || seen.has(question.questionId) || !marksByPaper.has(question.paperId)) {
+      continue;
+    }
+    seen.add(question.questionId);
+    asked.add(question.paperId);
+    marksByPaper.set(question.paperId, marksByPaper.get(question.paperId)! + (question.marks ?? 0));
+  }
+
+  const values = papers.map((paper) => marksByPaper.get(paper.id)!);
+  const mean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const variance =
+    values.length > 0 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length : 0;
+
+  return {
+    mean: round(mean),
+    variance: round(variance),
+    stdDev: round(Math.sqrt(variance)),
+    expected: round(weightedMean(values, recencyWeights(papers, halfLife))),
+    papersAsked: asked.size,
+    papersTotal: papers.length,
+  };
+}
+
+/** Per-unit and per-topic marks for one subject, heaviest expected first. */
+export function computeMarksWeightage(
+  topics: WeightedTopic[],
+  papers: MarksPaper[],
+  questions: TopicQuestion[],
+  halfLife: number = DEFAULT_PREDICTION_PARAMETERS.recencyHalfLife
+): MarksWeightage {
+  const weight = (key: string, name: string, topicIds: string[]): MarksWeight => ({
+    key,
+    name,
+    topicIds,
+    ...marksStat(new Set(topicIds), papers, questions, halfLife),
+  });
+  const byExpected = (a: MarksWeight, b: MarksWeight) => b.expected - a.expected || b.mean - a.mean;
+
+  const units = [...new Set(topics.map((topic) => topic.unit).filter((unit): unit is string => unit !== null))].map(
+    (unit) =>
+      weight(
+        `unit:${unit}`,
+        unit,
+        topics.filter((topic) => topic.unit === unit).map((topic) => topic.id)
+      )
+  );
+
+  const totals = papers.filter((paper) => paper.totalMarks !== null);
+  const paperMarks =
+    totals.length > 0
+      ? round(
+          weightedMean(
+            totals.map((paper) => paper.totalMarks!),
+            recencyWeights(totals, halfLife)
+          )
+        )
+      : null;
+
+  return {
+    paperMarks,
+    units: units.sort(byExpected),
+    topics: topics.map((topic) => weight(`topic:${topic.id}`, topic.name, [topic.id])).sort(byExpected),
+  };
+}
+
+/** Matched questions and papers of one subject, with the subject's recency half-life. */
+export async function loadMarksEvidence(userId: string, subject: string) {
+  const [{ questions }, { data: papers, error }, settings] = await Promise.all([
+    loadTopicQuestions(userId, subject),
+    supabase.from("past_papers").select("id, year, subject, max_marks, paper_questions(marks)").eq("user_id", userId),
+    loadPredictionSettings(userId),
+  ]);
+  if (error) throw error;
+
+  const subjectPapers: MarksPaper[] = (papers || [])
+    .filter((paper) => subjectKey(paper.subject) === subjectKey(subject))
+    .map((paper) => {
+      const questionMarks = paper.paper_questions
+        .map((question) => question.marks)
+        .filter((marks): marks is number => marks !== null);
+      return {
+        id: paper.id,
+        year: paper.year,
+        totalMarks: paper.max_marks ?? (questionMarks.length > 0 ? questionMarks.reduce((a, b) => a + b, 0) : null),
+      };
+    });
+
+  return {
+    questions,
+    papers: subjectPapers,
+    halfLife: (settings.get(subjectKey(subject)) ?? DEFAULT_PREDICTION_PARAMETERS).recencyHalfLife,
+  };
+}
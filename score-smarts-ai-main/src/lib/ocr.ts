@@ -0,0 +1,35 @@
+import { createWorker } from "tesseract.js";
+
+export interface RecognizedPage {
+  pageNumber: number;
+  content: string;
+  confidence: number;
+}
+
+/**
+ * Runs Tesseract (WASM, inside its own web worker) over each page image in
+ * order. Confidence is Tesseract's mean word confidence, 0-100.
+ */
+export async function recognizePages(
+  images: Blob[],
+  onProgress?: (completedPages: number, totalPages: number) => void
+): Promise<RecognizedPage[]> {
+  const worker = await createWorker("eng");
+  const pages: RecognizedPage[] = [];
+
+  try {
+    for (const [index, image] of images.entries()) {
+      const { data } = await worker.recognize(image);
+      pages.push({
+        pageNumber: index + 1,
+        content: data.text.trim(),
+        confidence: Math.round(data.confidence),
+      });
+      onProgress?.(index + 1, images.length);
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  return pages;
+}
@@ -0,0 +1,148 @@
+import { PDFDocument } from "pdf-lib";
+
+/** Edits applied to one photographed page, in this order: rotate, deskew, crop. */
+export interface PageEdits {
+  /** Quarter turns clockwise, in degrees: 0, 90, 180 or 270 */
+  rotation: number;
+  /** Fine rotation in degrees that straightens the text lines */
+  skew: number;
+  /** Fraction of each edge to trim off, after rotation */
+  crop: { top: number; right: number; bottom: number; left: number };
+}
+
+export const DEFAULT_PAGE_EDITS: PageEdits = {
+  rotation: 0,
+  skew: 0,
+  crop: { top: 0, right: 0, bottom: 0, left: 0 },
+};
+
+export const MAX_SKEW_DEGREES = 10;
+
+// Long edge of the saved pages: sharp enough for OCR without bloating the PDF
+const FULL_SIZE = 2000;
+const SKEW_SAMPLE_SIZE = 1000;
+const SKEW_STEP_DEGREES = 0.2;
+const MAX_SKEW_SAMPLES = 60000;
+const A4_WIDTH_POINTS = 595;
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return { canvas, context: canvas.getContext("2d")! };
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not render page"))), "image/jpeg", 0.85)
+  );
+}
+
+/** Applies the edits to a photo and returns it as a JPEG no larger than `maxDimension` on its long edge. */
+export async function renderPage(image: Blob, edits: PageEdits, maxDimension = FULL_SIZE): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = bitmap.width * scale;
+  const height = bitmap.height * scale;
+
+  // Quarter turns swap the sides; the small deskew angle keeps the frame and fills the corners white
+  const sideways = edits.rotation % 180 !== 0;
+  const rotated = createCanvas(sideways ? height : width, sideways ? width : height);
+  rotated.context.fillStyle = "#ffffff";
+  rotated.context.fillRect(0, 0, rotated.canvas.width, rotated.canvas.height);
+  rotated.context.translate(rotated.canvas.width / 2, rotated.canvas.height / 2);
+  rotated.context.rotate(((edits.rotation + edits.skew) * Math.PI) / 180);
+  rotated.context.drawImage(bitmap, -width / 2, -height / 2, width, height);
+  bitmap.close();
+
+  const { top, right, bottom, left } = edits.crop;
+  const sourceX = rotated.canvas.width * left;
+  const sourceY = rotated.canvas.height * top;
+  const cropWidth = rotated.canvas.width * (1 - left - right);
+  const cropHeight = rotated.canvas.height * (1 - top - bottom);
+
+  const cropped = createCanvas(cropWidth, cropHeight);
+  cropped.context.drawImage(rotated.canvas, sourceX, sourceY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+  return canvasToJpeg(cropped.canvas);
+}
+
+/**
+ * Projection-profile deskew: text lines produce sharp peaks in the row
+ * histogram of dark pixels only when they are horizontal, so the rotation
+ * that maximises the histogram's sum of squares is the one that straightens
+ * the page. Takes a grayscale image and returns that rotation in degrees.
+ */
+export function estimateSkewAngle(gray: Uint8ClampedArray, width: number, height: number): number {
+  let sum = 0;
+  for (const value of gray) sum += value;
+  const threshold = (sum / gray.length) * 0.7;
+
+  const darkX: number[] = [];
+  const darkY: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) {
+        darkX.push(x - width / 2);
+        darkY.push(y - height / 2);
+      }
+    }
+  }
+  if (darkX.length === 0) return 0;
+
+  const stride = Math.max(1, Math.ceil(darkX.length / MAX_SKEW_SAMPLES));
+  const binCount = Math.ceil(Math.hypot(width, height)) + 1;
+  const bins = new Float64Array(binCount);
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES + 1e-9; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+
+    for (let i = 0; i < darkX.length; i += stride) {
+      bins[Math.round(darkX[i] * sin + darkY[i] * cos + binCount / 2)]++;
+    }
+
+    let score = 0;
+    for (const count of bins) score += count * count;
+    // Prefer the smaller correction when two angles score the same
+    if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+
+  return Math.round(bestAngle * 10) / 10 || 0;
+}
+
+/** Finds the deskew angle for a photo after its quarter-turn rotation has been applied. */
+export async function estimateSkew(image: Blob, rotation: number): Promise<number> {
+  const upright = await createImageBitmap(await renderPage(image, { ...DEFAULT_PAGE_EDITS, rotation }, SKEW_SAMPLE_SIZE));
+  const { canvas, context } = createCanvas(upright.width, upright.height);
+  context.drawImage(upright, 0, 0);
+  upright.close();
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  return estimateSkewAngle(gray, canvas.width, canvas.height);
+}
+
+/** Combines rendered JPEG pages into one PDF, each page A4 wide. */
+export async function assemblePdf(pages: Blob[]): Promise<Blob> {
+  const pdf = await PDFDocument.create();
+
+  for (const page of pages) {
+    const image = await pdf.embedJpg(await page.arrayBuffer());
+    const scale = A4_WIDTH_POINTS / image.width;
+    const pdfPage = pdf.addPage([A4_WIDTH_POINTS, image.height * scale]);
+    pdfPage.drawImage(image, { x: 0, y: 0, width: A4_WIDTH_POINTS, height: image.height * scale });
+  }
+
+  return new Blob([await pdf.save()], { type: "application/pdf" });
+}
@@ -0,0 +1,18 @@
+// PostgREST caps responses at 1000 rows
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query that can outgrow one response, a page at a
+ * time. The query must be ordered on a unique column so pages don't overlap.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
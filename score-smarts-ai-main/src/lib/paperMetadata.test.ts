@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  formatPaperSummary,
+  guessPaperMetadata,
+  isValidPaperMetadata,
+  paperMetadataFromRow,
+  paperMetadataToRow,
+  type PaperMetadata,
+} from "@/lib/paperMetadata";
+
+describe("guessPaperMetadata", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reads the subject, session, year and paper type from the file name", () => {
+    expect(guessPaperMetadata("DSA_May2019_supp.pdf")).toMatchObject({
+      subject: "DSA",
+      year: "2019",
+      examSession: "May",
+      paperType: "supplementary",
+      courseCode: "",
+    });
+  });
+
+  it("separates a course code and a standalone year from the subject words", () => {
+    expect(guessPaperMetadata("CS201 Data Structures Dec 2021.pdf")).toMatchObject({
+      subject: "Data Structures",
+      year: "2021",
+      examSession: "Dec",
+      paperType: "regular",
+      courseCode: "CS201",
+    });
+  });
+
+  it("expands two-digit years and drops filler words", () => {
+    expect(guessPaperMetadata("OS previous year papers november22.pdf")).toMatchObject({
+      subject: "OS",
+      year: "2022",
+      examSession: "Nov",
+    });
+  });
+
+  it("snaps to a known subject by name or course code", () => {
+    expect(guessPaperMetadata("data-structures_2020.pdf", ["Data Structures"]).subject).toBe("Data Structures");
+    expect(guessPaperMetadata("CS201_2020.pdf", ["cs201"]).subject).toBe("cs201");
+  });
+
+  it("falls back to a general subject and the current year", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-01"));
+
+    expect(guessPaperMetadata("scan.pdf")).toMatchObject({ subject: "scan", year: "2024", examSession: null });
+    expect(guessPaperMetadata("2019 past papers.pdf").subject).toBe("General");
+  });
+});
+
+describe("paper metadata rows", () => {
+  const metadata: PaperMetadata = {
+    subject: " Physics ",
+    year: "2021",
+    examSession: "Jun",
+    paperType: "supplementary",
+    maxMarks: 80,
+    durationMinutes: 180,
+    university: "  ",
+    courseCode: " PH101 ",
+  };
+
+  it("trims text fields and stores blanks as null", () => {
+    expect(paperMetadataToRow(metadata)).toEqual({
+      subject: "Physics",
+      year: "2021",
+      exam_session: "Jun",
+      paper_type: "supplementary",
+      max_marks: 80,
+      duration_minutes: 180,
+      university: null,
+      course_code: "PH101",
+    });
+  });
+
+  it("reads a stored row back into the form's shape", () => {
+    expect(paperMetadataFromRow(paperMetadataToRow(metadata))).toEqual({
+      ...metadata,
+      subject: "Physics",
+      university: "",
+      courseCode: "PH101",
+    });
+  });
+
+  it("summarizes the subject, session and type", () => {
+    expect(formatPaperSummary(metadata)).toBe(" Physics  · Jun 2021 · Supplementary");
+    expect(formatPaperSummary({ subject: "Maths", year: "2020", examSession: null, paperType: "regular" })).toBe(
+      "Maths · 2020"
+    );
+  });
+
+  it("needs a subject and a four-digit year", () => {
+    expect(isValidPaperMetadata(metadata)).toBe(true);
+    expect(isValidPaperMetadata({ ...metadata, subject: " " })).toBe(false);
+    expect(isValidPaperMetadata({ ...metadata, year: "21" })).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+export type PaperType = "regular" | "supplementary";
+
+export interface PaperMetadata {
+  subject: string;
+  year: string;
+  examSession: string | null;
+  paperType: PaperType;
+  maxMarks: number | null;
+  durationMinutes: number | null;
+  university: string;
+  courseCode: string;
+}
+
+export interface PaperMetadataRow {
+  subject: string;
+  year: string;
+  exam_session: string | null;
+  paper_type: string;
+  max_marks: number | null;
+  duration_minutes: number | null;
+  university: string | null;
+  course_code: string | null;
+}
+
+export const EXAM_SESSIONS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const MONTH_PATTERN = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*((?:19|20)?\d{2})?$/i;
+const YEAR_PATTERN = /^(?:19|20)\d{2}$/;
+const SUPPLEMENTARY_PATTERN = /^(?:supp\w*|backlog|re-?exam|repeat)$/i;
+const COURSE_CODE_PATTERN = /^[A-Z]{2,4}\d{3,4}[A-Z]?$/;
+// Words that describe the file rather than the subject, e.g. "DSA previous year papers"
+const FILLER_PATTERN = /^(?:papers?|questions?|qps?|pyqs?|exams?|previous|past|years?)$/i;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Smart defaults for the metadata form, read from names like
+ * "DSA_May2019_supp.pdf" or "CS201 Data Structures Dec 2021.pdf". The subject
+ * snaps to a known subject when the leftover words match one.
+ */
+export function guessPaperMetadata(fileName: string, knownSubjects: string[] = []): PaperMetadata {
+  const tokens = fileName.replace(/\.\w+$/, "").split(/[\s_.-]+/).filter(Boolean);
+
+  let year: string | null = null;
+  let examSession: string | null = null;
+  let paperType: PaperType = "regular";
+  let courseCode = "";
+  const subjectTokens: string[] = [];
+
+  for (const token of tokens) {
+    const monthMatch = token.match(MONTH_PATTERN);
+    if (monthMatch) {
+      examSession = monthMatch[1].charAt(0).toUpperCase() + monthMatch[1].slice(1).toLowerCase();
+      if (monthMatch[2]) {
+        year ??= monthMatch[2].length === 2 ? `20${monthMatch[2]}` : monthMatch[2];
+      }
+    } else if (YEAR_PATTERN.test(token)) {
+      year ??= token;
+    } else if (SUPPLEMENTARY_PATTERN.test(token)) {
+      paperType = "supplementary";
+    } else if (!courseCode && COURSE_CODE_PATTERN.test(token)) {
+      courseCode = token;
+    } else if (!FILLER_PATTERN.test(token)) {
+      subjectTokens.push(token);
+    }
+  }
+
+  const guessedSubject = subjectTokens.join(" ").trim();
+  const knownSubject = knownSubjects.find(
+    (subject) => normalize(subject) === normalize(guessedSubject) || normalize(subject) === normalize(courseCode)
+  );
+
+  return {
+    subject: knownSubject ?? (guessedSubject || "General"),
+    year: year ?? new Date().getFullYear().toString(),
+    examSession,
+    paperType,
+    maxMarks: null,
+    durationMinutes: null,
+    university: "",
+    courseCode,
+  };
+}
+
+export function formatPaperSummary(metadata: Pick<PaperMetadata, "subject" | "year" | "examSession" | "paperType">) {
+  const session = metadata.examSession ? `${metadata.examSession} ${metadata.year}` : metadata.year;
+  const type = metadata.paperType === "supplementary" ? " · Supplementary" : "";
+  return `${metadata.subject} · ${session}${type}`;
+}
+
+export function paperMetadataFromRow(row: PaperMetadataRow): PaperMetadata {
+  return {
+    subject: row.subject,
+    year: row.year,
+    examSession: row.exam_session,
+    paperType: row.paper_type as PaperType,
+    maxMarks: row.max_marks,
+    durationMinutes: row.duration_minutes,
+    university: row.university ?? "",
+    courseCode: row.course_code ?? "",
+  };
+}
+
+export function paperMetadataToRow(metadata: PaperMetadata): PaperMetadataRow {
+  return {
+    subject: metadata.subject.trim(),
+    year: metadata.year,
+    exam_session: metadata.examSession,
+    paper_type: metadata.paperType,
+    max_marks: metadata.maxMarks,
+    duration_minutes: metadata.durationMinutes,
+    university: metadata.university.trim() || null,
+    course_code: metadata.courseCode.trim() || null,
+  };
+}
+
+export const isValidPaperMetadata = (metadata: PaperMetadata) =>
+  Boolean(metadata.subject.trim()) && /^(19|20)\d{2}$/.test(metadata.year);
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_PREDICTION_PARAMETERS } from "@/lib/predictionModel";
+import { backtestSubject } from "@/lib/predictionBacktest";
+import type { SubjectData } from "@/lib/topicAnalysis";
+import type { FrequencyQuestion } from "@/lib/topicFrequency";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const subject: SubjectData = {
+  name: "DSA",
+  topics: [
+    { id: "trees", title: "Binary Trees", unitTitle: "Unit 1", subtopics: [] },
+    { id: "graphs", title: "Graph Colouring", unitTitle: "Unit 2", subtopics: [] },
+    { id: "heaps", title: "Heap Sort", unitTitle: "Unit 3", subtopics: [] },
+  ],
+  papers: [
+    { id: "p2020", year: "2020" },
+    { id: "p2021", year: "2021" },
+    { id: "p2022-may", year: "2022" },
+    { id: "p2022-dec", year: "2022" },
+    { id: "p2023-unsegmented", year: "2023" },
+  ],
+};
+
+const questions: FrequencyQuestion[] = [
+  { id: "q1", paperId: "p2020", text: "Explain binary trees.", marks: 10 },
+  { id: "q2", paperId: "p2021", text: "Explain binary trees.", marks: 10 },
+  { id: "q3", paperId: "p2021", text: "Explain heap sort.", marks: 5 },
+  { id: "q4", paperId: "p2022-may", text: "Explain binary trees.", marks: 6 },
+  { id: "q5", paperId: "p2022-dec", text: "Explain graph colouring.", marks: 4 },
+];
+
+describe("backtestSubject", () => {
+  it("hides every paper of the latest segmented year and predicts from the earlier ones", () => {
+    const result = backtestSubject(subject, questions, DEFAULT_PREDICTION_PARAMETERS, 1, 10)!;
+
+    expect(result.heldOutYears).toEqual(["2022"]);
+    expect(result.trainingPapers).toBe(2);
+    expect(result.predicted.map((pick) => [pick.topic, pick.asked])).toEqual([
+      ["Binary Trees", true],
+      ["Heap Sort", false],
+    ]);
+    expect(result.precisionAtK).toBe(0.5);
+    expect(result.recallAtK).toBe(0.5);
+    expect(result.marksCovered).toBe(0.6);
+    expect(result.missed).toEqual(["Graph Colouring"]);
+  });
+
+  it("hides several whole years", () => {
+    const result = backtestSubject(subject, questions, DEFAULT_PREDICTION_PARAMETERS, 2, 10)!;
+
+    expect(result.yearsHeldOut).toBe(2);
+    expect(result.heldOutYears).toEqual(["2021", "2022"]);
+    expect(result.trainingPapers).toBe(1);
+    expect(result.predicted.map((pick) => pick.topic)).toEqual(["Binary Trees"]);
+    expect(result.recallAtK).toBe(0.33);
+  });
+
+  it("keeps only the top k predictions", () => {
+    const result = backtestSubject(subject, questions, DEFAULT_PREDICTION_PARAMETERS, 1, 1)!;
+
+    expect(result.predicted.map((pick) => pick.topic)).toEqual(["Binary Trees"]);
+    expect(result.precisionAtK).toBe(1);
+    expect(result.missed).toEqual(["Graph Colouring"]);
+  });
+
+  it("leaves marks coverage empty when the hidden papers printed no marks", () => {
+    const unmarked = questions.map((question) => ({ ...question, marks: null }));
+
+    expect(backtestSubject(subject, unmarked, DEFAULT_PREDICTION_PARAMETERS, 1, 10)!.marksCovered).toBeNull();
+  });
+
+  it("gives up when hiding the years would leave none to predict from", () => {
+    expect(backtestSubject(subject, questions, DEFAULT_PREDICTION_PARAMETERS, 3, 10)).toBeNull();
+  });
+});
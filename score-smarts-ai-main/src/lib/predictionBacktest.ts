@@ -0,0 +1,179 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_PREDICTION_PARAMETERS, type PredictionParameters } from "@/lib/predictionModel";
+import { loadAnalysisInputs, type SubjectData } from "@/lib/topicAnalysis";
+import { computeTopicFrequencies, type FrequencyQuestion } from "@/lib/topicFrequency";
+import { byYear, subjectKey } from "@/lib/common";
+
+// Checks the prediction model against papers it hasn't seen: every paper from
+// a subject's most recent exam years is hidden, topics are predicted from the
+// older years and the top k are compared with what the hidden papers actually
+// asked. Whole years are hidden because a year's papers usually share topics,
+// so predicting one of them from its siblings would flatter the model.
+
+export interface BacktestPick {
+  topic: string;
+  probability: number;
+  /** Whether a hidden paper asked it */
+  asked: boolean;
+}
+
+export interface BacktestResult {
+  subject: string;
+  /** Number of exam years hidden */
+  yearsHeldOut: number;
+  k: number;
+  trainingPapers: number;
+  heldOutYears: string[];
+  /** Share of the top k that the hidden papers asked, 0-1 */
+  precisionAtK: number;
+  /** Share of the topics the hidden papers asked that made the top k, 0-1 */
+  recallAtK: number;
+  /** Share of the hidden papers' marks on top-k topics, 0-1; null when no marks were printed */
+  marksCovered: number | null;
+  predicted: BacktestPick[];
+  /** Topics the hidden papers asked that weren't in the top k, most asked first */
+  missed: string[];
+  parameters: PredictionParameters;
+}
+
+export interface BacktestReport extends BacktestResult {
+  ranAt: string;
+  /** Stored before the backtest hid whole years; its numbers came from hiding papers */
+  stale: boolean;
+}
+
+export const DEFAULT_YEARS_HELD_OUT = 1;
+export const DEFAULT_TOP_K = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Backtests one subject on its latest `yearsHeldOut` exam years, or returns null
+ * when hiding them would leave no year to predict from. Only segmented papers
+ * count, as in the analysis.
+ */
+export function backtestSubject(
+  subject: SubjectData,
+  questions: FrequencyQuestion[],
+  parameters: PredictionParameters,
+  yearsHeldOut: number,
+  k: number
+): BacktestResult | null {
+  const segmented = new Set(questions.map((question) => question.paperId));
+  const papers = subject.papers.filter((paper) => segmented.has(paper.id));
+  const years = [...new Set(papers.map((paper) => paper.year))].sort(byYear);
+  if (years.length <= yearsHeldOut) return null;
+
+  const heldOutYears = years.slice(-yearsHeldOut);
+  const training = papers.filter((paper) => !heldOutYears.includes(paper.year));
+  const hidden = papers.filter((paper) => heldOutYears.includes(paper.year));
+
+  const top = computeTopicFrequencies(subject.topics, training, questions, parameters)
+    .topics.sort((a, b) => b.probability - a.probability || b.frequency - a.frequency)
+    .slice(0, k);
+  const topIds = new Set(top.map((topic) => topic.topicId));
+
+  const actual = computeTopicFrequencies(subject.topics, hidden, questions, parameters);
+  const askedIds = new Set(actual.topics.map((topic) => topic.topicId));
+  const hits = top.filter((topic) => askedIds.has(topic.topicId)).length;
+
+  // A question on two topics counts as covered if either made the top k
+  const coveredQuestions = new Set(
+    actual.matches.filter((match) => topIds.has(match.topicId)).map((match) => match.questionId)
+  );
+  const hiddenIds = new Set(hidden.map((paper) => paper.id));
+  let totalMarks = 0;
+  let coveredMarks = 0;
+  for (const question of questions) {
+    if (!hiddenIds.has(question.paperId) || question.marks === null) continue;
+    totalMarks += Number(question.marks);
+    if (coveredQuestions.has(question.id)) coveredMarks += Number(question.marks);
+  }
+
+  return {
+    subject: subject.name,
+    yearsHeldOut,
+    k,
+    trainingPapers: training.length,
+    heldOutYears,
+    precisionAtK: top.length > 0 ? round(hits / top.length) : 0,
+    recallAtK: askedIds.size > 0 ? round(hits / askedIds.size) : 0,
+    marksCovered: totalMarks > 0 ? round(coveredMarks / totalMarks) : null,
+    predicted: top.map((topic) => ({ topic: topic.name, probability: topic.probability, asked: askedIds.has(topic.topicId) })),
+    missed: actual.topics
+      .filter((topic) => !topIds.has(topic.topicId))
+      .sort((a, b) => b.frequency - a.frequency)
+      .map((topic) => topic.name),
+    parameters,
+  };
+}
+
+const toReport = (row: Tables<"prediction_backtests">): BacktestReport => ({
+  subject: row.subject,
+  yearsHeldOut: row.years_held_out,
+  k: row.k,
+  trainingPapers: row.training_papers,
+  heldOutYears: row.held_out_years,
+  precisionAtK: Number(row.precision_at_k),
+  recallAtK: Number(row.recall_at_k),
+  marksCovered: row.marks_covered === null ? null : Number(row.marks_covered),
+  predicted: row.predicted as unknown as BacktestPick[],
+  missed: row.missed as unknown as string[],
+  parameters: row.parameters as unknown as PredictionParameters,
+  ranAt: row.updated_at,
+  stale: row.stale,
+});
+
+/** The latest stored report of each subject. */
+export async function loadBacktests(userId: string): Promise<BacktestReport[]> {
+  const { data, error } = await supabase
+    .from("prediction_backtests")
+    .select("*")
+    .eq("user_id", userId)
+    .order("subject");
+  if (error) throw error;
+  return (data || []).map(toReport);
+}
+
+/**
+ * Backtests every subject with its tuned parameters and stores each result
+ * over the subject's previous report. Returns the subjects that had too few
+ * exam years to hide `yearsHeldOut` of them.
+ */
+export async function runBacktests(userId: string, yearsHeldOut: number, k: number) {
+  const { subjects, questions, settings } = await loadAnalysisInputs(userId);
+
+  const results: BacktestResult[] = [];
+  const skipped: string[] = [];
+  for (const subject of subjects.filter((s) => s.topics.length > 0 && s.papers.length > 0)) {
+    const parameters = settings.get(subjectKey(subject.name)) ?? DEFAULT_PREDICTION_PARAMETERS;
+    const result = backtestSubject(subject, questions, parameters, yearsHeldOut, k);
+    if (result) results.push(result);
+    else skipped.push(subject.name);
+  }
+
+  if (results.length > 0) {
+    const { error } = await supabase.from("prediction_backtests").upsert(
+      results.map((result) => ({
+        user_id: userId,
+        subject: result.subject,
+        years_held_out: result.yearsHeldOut,
+        k: result.k,
+        training_papers: result.trainingPapers,
+        held_out_years: result.heldOutYears,
+        precision_at_k: result.precisionAtK,
+        recall_at_k: result.recallAtK,
+        marks_covered: result.marksCovered,
+        predicted: result.predicted.map((pick) => ({ ...pick })),
+        missed: result.missed,
+        parameters: { ...result.parameters },
+        stale: false,
+      })),
+      { onConflict: "user_id,subject" }
+    );
+    if (error) throw error;
+  }
+
+  return { results, skipped };
+}
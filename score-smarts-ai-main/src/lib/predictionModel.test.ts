@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PREDICTION_PARAMETERS,
+  predictTopics,
+  scoreContributions,
+  type TopicEvidence,
+} from "@/lib/predictionModel";
+
+const onePaperPerYear = (from: number, to: number) =>
+  Object.fromEntries(Array.from({ length: to - from + 1 }, (_, index) => [String(from + index), 1]));
+
+const askedIn = (years: number[], marks: number[] = []): TopicEvidence => ({
+  papersAskedByYear: Object.fromEntries(years.map((year) => [String(year), 1])),
+  marks,
+});
+
+describe("predictTopics", () => {
+  it("ranks topics asked more often and more recently higher", () => {
+    const [everyYear, recent, old] = predictTopics(
+      [askedIn([2018, 2019, 2020, 2021, 2022]), askedIn([2022]), askedIn([2018])],
+      onePaperPerYear(2018, 2022)
+    );
+
+    expect(everyYear.probability).toBeGreaterThan(recent.probability);
+    expect(recent.factors.recency).toBeGreaterThan(old.factors.recency);
+  });
+
+  it("smooths the frequency score so one paper can't give 0 or 1", () => {
+    const [asked, missed] = predictTopics([askedIn([2022]), askedIn([])], { 2022: 1 });
+
+    expect(asked.factors.recency).toBe(0.75);
+    expect(missed.factors.recency).toBe(0.25);
+  });
+
+  it("marks a regular cycle as due in the year it comes round", () => {
+    const [due, notDue] = predictTopics([askedIn([2014, 2017, 2020]), askedIn([2015, 2018, 2021])], onePaperPerYear(2014, 2022));
+
+    expect(due.factors).toMatchObject({ period: 3, cycle: 1, nextExpectedYear: 2023, overdue: false });
+    expect(notDue.factors).toMatchObject({ period: 3, cycle: 0.1, nextExpectedYear: 2024 });
+  });
+
+  it("needs enough appearances before a gap counts as a cycle", () => {
+    const [twice] = predictTopics([askedIn([2016, 2019])], onePaperPerYear(2014, 2022));
+    const [cycle] = predictTopics([askedIn([2016, 2019])], onePaperPerYear(2014, 2022), {
+      ...DEFAULT_PREDICTION_PARAMETERS,
+      minCycleAppearances: 2,
+    });
+
+    expect(twice.factors).toMatchObject({ period: null, overdue: true, cycle: 1 });
+    expect(cycle.factors).toMatchObject({ period: 3, overdue: true, cycle: 1 });
+  });
+
+  it("stops calling a topic overdue once it has been missing far longer than usual", () => {
+    const [dropped] = predictTopics([askedIn([2000, 2001])], onePaperPerYear(2000, 2022));
+
+    expect(dropped.factors.overdue).toBe(false);
+  });
+
+  it("scores marks against the subject's heaviest topic and keeps topics without marks neutral", () => {
+    const [heavy, light, unknown] = predictTopics(
+      [askedIn([2022], [10, 10]), askedIn([2022], [5]), askedIn([2022])],
+      { 2022: 1 }
+    );
+
+    expect(heavy.factors.marks).toBe(1);
+    expect(light.factors.marks).toBe(0.5);
+    expect(unknown.factors.marks).toBe(unknown.factors.recency);
+  });
+
+  it("still scores when no exam year is a number", () => {
+    const [withMarks, withoutMarks] = predictTopics(
+      [
+        { papersAskedByYear: { Unknown: 1 }, marks: [10] },
+        { papersAskedByYear: { Unknown: 1 }, marks: [] },
+      ],
+      { Unknown: 2 }
+    );
+
+    expect(withMarks.factors).toMatchObject({ recency: 0, cycle: 0, marks: 1, period: null, overdue: false, nextExpectedYear: null });
+    expect(withMarks.probability).toBe(15);
+    expect(withoutMarks.probability).toBe(1);
+  });
+
+  it("keeps probabilities between 1 and 99", () => {
+    const [certain] = predictTopics([askedIn([2020, 2021, 2022], [10])], onePaperPerYear(2020, 2022), {
+      ...DEFAULT_PREDICTION_PARAMETERS,
+      frequencyWeight: 0,
+      cycleWeight: 0,
+    });
+
+    expect(certain.probability).toBe(99);
+  });
+
+  it("falls back to the frequency score when every weight is zero", () => {
+    const [prediction] = predictTopics([askedIn([2022], [10])], { 2022: 1 }, {
+      ...DEFAULT_PREDICTION_PARAMETERS,
+      frequencyWeight: 0,
+      cycleWeight: 0,
+      marksWeight: 0,
+    });
+
+    expect(prediction.probability).toBe(75);
+  });
+});
+
+describe("scoreContributions", () => {
+  it("splits the probability into each factor's weighted points", () => {
+    const [prediction] = predictTopics([askedIn([2020, 2022], [4])], onePaperPerYear(2018, 2022));
+    const contributions = scoreContributions(prediction.factors);
+
+    expect(contributions.map((contribution) => contribution.factor)).toEqual(["recency", "cycle", "marks"]);
+    expect(contributions.map((contribution) => contribution.weight)).toEqual([0.6, 0.25, 0.15]);
+    const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+    expect(Math.abs(total - prediction.probability)).toBeLessThanOrEqual(1);
+  });
+
+  it("gives every point to the frequency score when every weight is zero", () => {
+    const [prediction] = predictTopics([askedIn([2022])], { 2022: 1 });
+    const contributions = scoreContributions({
+      ...prediction.factors,
+      parameters: { ...prediction.factors.parameters, frequencyWeight: 0, cycleWeight: 0, marksWeight: 0 },
+    });
+
+    expect(contributions.map((contribution) => contribution.weight)).toEqual([1, 0, 0]);
+  });
+});
@@ -0,0 +1,189 @@
+// Scores how likely each topic is to appear in the next paper from three
+// signals: how often it was asked (recent papers counting more), whether it
+// follows a cycle and is due, and how many marks it usually carries. The
+// result depends only on the evidence and the parameters, so a stored
+// prediction can be reproduced from its `score_factors`.
+
+export interface PredictionParameters {
+  /** Years after which a paper counts half as much as the latest one */
+  recencyHalfLife: number;
+  frequencyWeight: number;
+  cycleWeight: number;
+  marksWeight: number;
+  /** Appearances needed before a regular gap between them counts as a cycle */
+  minCycleAppearances: number;
+}
+
+export const DEFAULT_PREDICTION_PARAMETERS: PredictionParameters = {
+  recencyHalfLife: 3,
+  frequencyWeight: 0.6,
+  cycleWeight: 0.25,
+  marksWeight: 0.15,
+  minCycleAppearances: 3,
+};
+
+export interface TopicEvidence {
+  /** Papers that asked the topic, per exam year */
+  papersAskedByYear: Record<string, number>;
+  /** Marks of every question asked on the topic, where the paper printed them */
+  marks: number[];
+}
+
+export interface ScoreFactors {
+  /** Recency-weighted share of papers that asked the topic, 0-1 */
+  recency: number;
+  /** 1 when a cycle or the usual gap says the topic is due, 0-1 */
+  cycle: number;
+  /** Average marks relative to the subject's heaviest topic, 0-1 */
+  marks: number;
+  /** Years between appearances when the topic follows a regular cycle */
+  period: number | null;
+  /** Asked regularly but missing for longer than its usual gap */
+  overdue: boolean;
+  nextExpectedYear: number | null;
+  parameters: PredictionParameters;
+}
+
+export interface TopicPrediction {
+  probability: number;
+  factors: ScoreFactors;
+}
+
+export interface ScoreContribution {
+  factor: "recency" | "cycle" | "marks";
+  /** The factor's score, 0-1 */
+  score: number;
+  /** Its share of the blend, 0-1 */
+  weight: number;
+  /** Percentage points it adds to the probability */
+  points: number;
+}
+
+// Keeps a prediction from claiming certainty either way
+const MIN_PROBABILITY = 1;
+const MAX_PROBABILITY = 99;
+// A topic that isn't due yet still has some chance of being asked
+const NOT_DUE_CYCLE_SCORE = 0.1;
+const OVERDUE_GAP_LIMIT = 3;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function recencyScore(
+  papersAskedByYear: Record<string, number>,
+  papersByYear: Map<number, number>,
+  latestYear: number,
+  halfLife: number
+) {
+  let asked = 0;
+  let total = 0;
+  for (const [year, papers] of papersByYear) {
+    const weight = 0.5 ** ((latestYear - year) / halfLife);
+    asked += weight * (papersAskedByYear[year] ?? 0);
+    total += weight * papers;
+  }
+  // Smoothed so a single paper can't give 0 or 1
+  return (asked + 0.5) / (total + 1);
+}
+
+function cyclePattern(askedYears: number[], nextExamYear: number, minAppearances: number) {
+  const gaps = askedYears.slice(1).map((year, index) => year - askedYears[index]);
+  const last = askedYears[askedYears.length - 1];
+
+  // Every-year topics are already covered by the frequency score
+  const period = gaps.length > 0 && gaps.every((gap) => gap === gaps[0]) && gaps[0] > 1 ? gaps[0] : null;
+  if (period !== null && askedYears.length >= minAppearances) {
+    return { period, overdue: nextExamYear - last > period, nextExpectedYear: last + period };
+  }
+
+  if (gaps.length === 0) return { period: null, overdue: false, nextExpectedYear: null };
+  const usualGap = Math.max(...gaps);
+  const sinceLast = nextExamYear - last;
+  // A topic missing for far longer than usual was more likely dropped than forgotten
+  return {
+    period: null,
+    overdue: sinceLast > usualGap && sinceLast <= usualGap * OVERDUE_GAP_LIMIT,
+    nextExpectedYear: last + usualGap,
+  };
+}
+
+/**
+ * Scores every topic of one subject. `papersByYear` is the number of
+ * analyzed papers per exam year; years that aren't numbers are ignored.
+ */
+export function predictTopics(
+  topics: TopicEvidence[],
+  papersByYear: Record<string, number>,
+  parameters: PredictionParameters = DEFAULT_PREDICTION_PARAMETERS
+): TopicPrediction[] {
+  const years = new Map(
+    Object.entries(papersByYear)
+      .map(([year, papers]) => [Number.parseInt(year, 10), papers] as const)
+      .filter(([year]) => !Number.isNaN(year))
+  );
+  const latestYear = Math.max(...years.keys());
+  const nextExamYear = latestYear + 1;
+
+  const averageMarks = topics.map((topic) => (topic.marks.length > 0 ? average(topic.marks) : null));
+  const heaviest = Math.max(0, ...averageMarks.filter((marks): marks is number => marks !== null));
+
+  const totalWeight = parameters.frequencyWeight + parameters.cycleWeight + parameters.marksWeight;
+
+  return topics.map((topic, index) => {
+    const recency =
+      years.size > 0 ? recencyScore(topic.papersAskedByYear, years, latestYear, parameters.recencyHalfLife) : 0;
+
+    const askedYears = Object.keys(topic.papersAskedByYear)
+      .map((year) => Number.parseInt(year, 10))
+      .filter((year) => !Number.isNaN(year))
+      .sort((a, b) => a - b);
+    const pattern = cyclePattern(askedYears, nextExamYear, parameters.minCycleAppearances);
+
+    // Signals without evidence stay neutral by taking the frequency score
+    let cycle = recency;
+    if (pattern.period !== null) {
+      cycle = pattern.nextExpectedYear <= nextExamYear ? 1 : NOT_DUE_CYCLE_SCORE;
+    } else if (pattern.overdue) {
+      cycle = 1;
+    }
+    const marks = averageMarks[index] !== null && heaviest > 0 ? averageMarks[index]! / heaviest : recency;
+
+    const blended =
+      totalWeight > 0
+        ? (parameters.frequencyWeight * recency + parameters.cycleWeight * cycle + parameters.marksWeight * marks) /
+          totalWeight
+        : recency;
+
+    return {
+      probability: Math.min(MAX_PROBABILITY, Math.max(MIN_PROBABILITY, Math.round(blended * 100))),
+      factors: {
+        recency: round(recency),
+        cycle: round(cycle),
+        marks: round(marks),
+        period: pattern.period,
+        overdue: pattern.overdue,
+        nextExpectedYear: pattern.nextExpectedYear,
+        parameters,
+      },
+    };
+  });
+}
+
+/** How much each factor of a stored prediction added to its probability, before clamping. */
+export function scoreContributions(factors: ScoreFactors): ScoreContribution[] {
+  const { frequencyWeight, cycleWeight, marksWeight } = factors.parameters;
+  const totalWeight = frequencyWeight + cycleWeight + marksWeight;
+  // Without weights the blend falls back to the frequency score alone
+  const weights =
+    totalWeight > 0
+      ? [frequencyWeight / totalWeight, cycleWeight / totalWeight, marksWeight / totalWeight]
+      : [1, 0, 0];
+
+  return (["recency", "cycle", "marks"] as const).map((factor, index) => ({
+    factor,
+    score: factors[factor],
+    weight: weights[index],
+    points: Math.round(factors[factor] * weights[index] * 100),
+  }));
+}
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PredictionParameters } from "@/lib/predictionModel";
+
+const toParameters = (row: Tables<"prediction_settings">): PredictionParameters => ({
+  recencyHalfLife: Number(row.recency_half_life),
+  frequencyWeight: Number(row.frequency_weight),
+  cycleWeight: Number(row.cycle_weight),
+  marksWeight: Number(row.marks_weight),
+  minCycleAppearances: row.min_cycle_appearances,
+});
+
+/** The user's tuned parameters, keyed by lower-cased subject name. */
+export async function loadPredictionSettings(userId: string): Promise<Map<string, PredictionParameters>> {
+  const { data, error } = await supabase.from("prediction_settings").select("*").eq("user_id", userId);
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.subject.trim().toLowerCase(), toParameters(row)]));
+}
+
+export async function savePredictionSettings(userId: string, subject: string, parameters: PredictionParameters) {
+  const { error } = await supabase.from("prediction_settings").upsert(
+    {
+      user_id: userId,
+      subject,
+      recency_half_life: parameters.recencyHalfLife,
+      frequency_weight: parameters.frequencyWeight,
+      cycle_weight: parameters.cycleWeight,
+      marks_weight: parameters.marksWeight,
+      min_cycle_appearances: parameters.minCycleAppearances,
+    },
+    { onConflict: "user_id,subject" }
+  );
+  if (error) throw error;
+}
+
+/** Drops a subject's tuning so it goes back to the default parameters. */
+export async function resetPredictionSettings(userId: string, subject: string) {
+  const { error } = await supabase
+    .from("prediction_settings")
+    .delete()
+    .eq("user_id", userId)
+    .eq("subject", subject);
+  if (error) throw error;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyPredictionView,
+  DEFAULT_PREDICTION_VIEW,
+  groupTopicsByUnit,
+  parsePredictionView,
+  predictionViewToParams,
+  type PredictionView,
+  type ViewableTopic,
+} from "@/lib/predictionView";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+interface Topic extends ViewableTopic {
+  name: string;
+}
+
+const topic = (name: string, changes: Partial<Topic> = {}): Topic => ({
+  name,
+  subject: "DSA",
+  difficulty: "medium",
+  probability: 50,
+  probability_override: null,
+  frequency: 1,
+  pinned: false,
+  yearCounts: {},
+  unit: null,
+  ...changes,
+});
+
+const names = (topics: Topic[]) => topics.map((t) => t.name);
+
+describe("parsePredictionView", () => {
+  it("falls back to the defaults for an empty query", () => {
+    expect(parsePredictionView(new URLSearchParams())).toEqual(DEFAULT_PREDICTION_VIEW);
+  });
+
+  it("reads every setting from the query", () => {
+    const view = parsePredictionView(
+      new URLSearchParams("subject=all&difficulty=hard&min=20&max=80&sort=recency&group=unit&trends=1&marks=1&coverage=1&backtest=1")
+    );
+
+    expect(view).toEqual({
+      subject: "all",
+      difficulty: "hard",
+      minProbability: 20,
+      maxProbability: 80,
+      sort: "recency",
+      groupByUnit: true,
+      showTrends: true,
+      showMarks: true,
+      showCoverage: true,
+      showBacktest: true,
+    });
+  });
+
+  it("ignores unknown values and clamps percentages", () => {
+    const view = parsePredictionView(new URLSearchParams("difficulty=extreme&sort=random&min=-5&max=250&group=subject"));
+
+    expect(view).toMatchObject({ difficulty: null, sort: "probability", minProbability: 0, maxProbability: 100, groupByUnit: false });
+  });
+});
+
+describe("predictionViewToParams", () => {
+  it("leaves defaults out of the query", () => {
+    expect(predictionViewToParams(DEFAULT_PREDICTION_VIEW).toString()).toBe("");
+  });
+
+  it("round-trips through parsePredictionView", () => {
+    const view: PredictionView = {
+      ...DEFAULT_PREDICTION_VIEW,
+      subject: "Data Structures",
+      difficulty: "easy",
+      minProbability: 10,
+      sort: "frequency",
+      groupByUnit: true,
+      showCoverage: true,
+    };
+
+    expect(parsePredictionView(predictionViewToParams(view))).toEqual(view);
+  });
+});
+
+describe("applyPredictionView", () => {
+  it("filters by subject, difficulty and probability range", () => {
+    const topics = [
+      topic("kept", { probability: 60 }),
+      topic("other subject", { subject: "OS", probability: 60 }),
+      topic("too easy", { difficulty: "easy", probability: 60 }),
+      topic("too unlikely", { probability: 10 }),
+      topic("overridden", { probability: 10, probability_override: 70 }),
+    ];
+    const view = { ...DEFAULT_PREDICTION_VIEW, subject: "DSA", difficulty: "medium" as const, minProbability: 50 };
+
+    expect(names(applyPredictionView(topics, view))).toEqual(["overridden", "kept"]);
+  });
+
+  it("keeps unscored topics until a range is chosen", () => {
+    const topics = [topic("scored"), topic("unscored", { probability: null })];
+
+    expect(names(applyPredictionView(topics, DEFAULT_PREDICTION_VIEW))).toEqual(["scored", "unscored"]);
+    expect(names(applyPredictionView(topics, { ...DEFAULT_PREDICTION_VIEW, maxProbability: 90 }))).toEqual(["scored"]);
+  });
+
+  it("keeps pinned topics on top and breaks ties by probability, then frequency", () => {
+    const topics = [
+      topic("likely", { probability: 90 }),
+      topic("frequent", { probability: 40, frequency: 9 }),
+      topic("rare", { probability: 40, frequency: 2 }),
+      topic("pinned", { probability: 5, pinned: true }),
+    ];
+
+    expect(names(applyPredictionView(topics, DEFAULT_PREDICTION_VIEW))).toEqual(["pinned", "likely", "frequent", "rare"]);
+  });
+
+  it("sorts by the latest year a topic was asked", () => {
+    const topics = [
+      topic("old", { yearCounts: { 2019: 2 } }),
+      topic("recent", { yearCounts: { 2018: 1, 2023: 1 } }),
+      topic("zero count", { yearCounts: { 2024: 0 } }),
+    ];
+
+    expect(names(applyPredictionView(topics, { ...DEFAULT_PREDICTION_VIEW, sort: "recency" }))).toEqual([
+      "recent",
+      "old",
+      "zero count",
+    ]);
+  });
+});
+
+describe("groupTopicsByUnit", () => {
+  it("groups by subject and unit in syllabus order, topics outside units last", () => {
+    const groups = groupTopicsByUnit([
+      topic("heaps", { unit: { title: "Trees", position: 2 } }),
+      topic("custom"),
+      topic("stacks", { unit: { title: "Linear", position: 1 } }),
+      topic("bst", { unit: { title: "Trees", position: 2 } }),
+      topic("paging", { subject: "Algorithms", unit: { title: "Basics", position: 1 } }),
+    ]);
+
+    expect(groups.map((group) => [group.subject, group.unit, names(group.topics)])).toEqual([
+      ["Algorithms", "Basics", ["paging"]],
+      ["DSA", "Linear", ["stacks"]],
+      ["DSA", "Trees", ["heaps", "bst"]],
+      ["DSA", null, ["custom"]],
+    ]);
+  });
+});
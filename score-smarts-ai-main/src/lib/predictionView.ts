@@ -0,0 +1,159 @@
+import { effectiveProbability, TOPIC_DIFFICULTIES, type TopicDifficulty } from "@/lib/topicCuration";
+
+// Which predicted topics the Predictions page shows and in what order. The
+// view lives in the URL query string, so a filtered list can be bookmarked.
+
+export type PredictionSort = "probability" | "frequency" | "recency";
+
+export interface PredictionView {
+  /** null for every subject */
+  subject: string | null;
+  difficulty: TopicDifficulty | null;
+  minProbability: number;
+  maxProbability: number;
+  sort: PredictionSort;
+  groupByUnit: boolean;
+  showTrends: boolean;
+  showMarks: boolean;
+  showCoverage: boolean;
+  showBacktest: boolean;
+}
+
+export interface ViewableTopic {
+  subject: string;
+  difficulty: string | null;
+  probability: number | null;
+  probability_override: number | null;
+  frequency: number | null;
+  pinned: boolean;
+  /** Questions asked on the topic per exam year */
+  yearCounts: Record<string, number>;
+  /** The syllabus unit the topic belongs to, for topics from the analysis */
+  unit: { title: string; position: number } | null;
+}
+
+export interface TopicGroup<T> {
+  subject: string;
+  /** null for topics outside any syllabus unit */
+  unit: string | null;
+  topics: T[];
+}
+
+export const PREDICTION_SORTS: { value: PredictionSort; label: string }[] = [
+  { value: "probability", label: "Probability" },
+  { value: "frequency", label: "Frequency" },
+  { value: "recency", label: "Last asked" },
+];
+
+export const DEFAULT_PREDICTION_VIEW: PredictionView = {
+  subject: null,
+  difficulty: null,
+  minProbability: 0,
+  maxProbability: 100,
+  sort: "probability",
+  groupByUnit: false,
+  showTrends: false,
+  showMarks: false,
+  showCoverage: false,
+  showBacktest: false,
+};
+
+const parsePercent = (value: string | null, fallback: number) => {
+  const number = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(number) ? fallback : Math.min(100, Math.max(0, number));
+};
+
+export function parsePredictionView(params: URLSearchParams): PredictionView {
+  const difficulty = params.get("difficulty");
+  const sort = params.get("sort");
+  return {
+    subject: params.get("subject") || null,
+    difficulty: TOPIC_DIFFICULTIES.includes(difficulty as TopicDifficulty) ? (difficulty as TopicDifficulty) : null,
+    minProbability: parsePercent(params.get("min"), DEFAULT_PREDICTION_VIEW.minProbability),
+    maxProbability: parsePercent(params.get("max"), DEFAULT_PREDICTION_VIEW.maxProbability),
+    sort: PREDICTION_SORTS.some((option) => option.value === sort) ? (sort as PredictionSort) : "probability",
+    groupByUnit: params.get("group") === "unit",
+    showTrends: params.get("trends") === "1",
+    showMarks: params.get("marks") === "1",
+    showCoverage: params.get("coverage") === "1",
+    showBacktest: params.get("backtest") === "1",
+  };
+}
+
+/** Query parameters for a view; defaults are left out to keep URLs short. */
+export function predictionViewToParams(view: PredictionView): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view.subject) params.set("subject", view.subject);
+  if (view.difficulty) params.set("difficulty", view.difficulty);
+  if (view.minProbability !== DEFAULT_PREDICTION_VIEW.minProbability) params.set("min", String(view.minProbability));
+  if (view.maxProbability !== DEFAULT_PREDICTION_VIEW.maxProbability) params.set("max", String(view.maxProbability));
+  if (view.sort !== DEFAULT_PREDICTION_VIEW.sort) params.set("sort", view.sort);
+  if (view.groupByUnit) params.set("group", "unit");
+  if (view.showTrends) params.set("trends", "1");
+  if (view.showMarks) params.set("marks", "1");
+  if (view.showCoverage) params.set("coverage", "1");
+  if (view.showBacktest) params.set("backtest", "1");
+  return params;
+}
+
+const isRangeFiltered = (view: PredictionView) =>
+  view.minProbability !== DEFAULT_PREDICTION_VIEW.minProbability ||
+  view.maxProbability !== DEFAULT_PREDICTION_VIEW.maxProbability;
+
+const lastAsked = (topic: ViewableTopic) =>
+  Math.max(
+    0,
+    ...Object.entries(topic.yearCounts)
+      .filter(([, count]) => count > 0)
+      .map(([year]) => Number.parseInt(year, 10))
+      .filter((year) => !Number.isNaN(year))
+  );
+
+const compareBy: Record<PredictionSort, (a: ViewableTopic, b: ViewableTopic) => number> = {
+  probability: (a, b) => (effectiveProbability(b) ?? -1) - (effectiveProbability(a) ?? -1),
+  frequency: (a, b) => (b.frequency ?? 0) - (a.frequency ?? 0),
+  recency: (a, b) => lastAsked(b) - lastAsked(a),
+};
+
+/**
+ * Filters and sorts topics for a view. Pinned topics stay on top whatever
+ * the sort; ties fall back to probability, then frequency.
+ */
+export function applyPredictionView<T extends ViewableTopic>(topics: T[], view: PredictionView): T[] {
+  return topics
+    .filter((topic) => !view.subject || topic.subject === view.subject)
+    .filter((topic) => !view.difficulty || topic.difficulty === view.difficulty)
+    .filter((topic) => {
+      const probability = effectiveProbability(topic);
+      // Unscored topics only drop out once a range is chosen
+      if (probability === null) return !isRangeFiltered(view);
+      return probability >= view.minProbability && probability <= view.maxProbability;
+    })
+    .sort(
+      (a, b) =>
+        Number(b.pinned) - Number(a.pinned) ||
+        compareBy[view.sort](a, b) ||
+        compareBy.probability(a, b) ||
+        compareBy.frequency(a, b)
+    );
+}
+
+/**
+ * Groups sorted topics by subject and syllabus unit, units in syllabus
+ * order, keeping the sort within each unit.
+ */
+export function groupTopicsByUnit<T extends ViewableTopic>(topics: T[]): TopicGroup<T>[] {
+  const groups = new Map<string, TopicGroup<T> & { position: number }>();
+  for (const topic of topics) {
+    const unit = topic.unit?.title ?? null;
+    const key = JSON.stringify([topic.subject, unit]);
+    if (!groups.has(key)) {
+      groups.set(key, { subject: topic.subject, unit, position: topic.unit?.position ?? Infinity, topics: [] });
+    }
+    groups.get(key)!.topics.push(topic);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.subject.localeCompare(b.subject) || (a.position === b.position ? 0 : a.position - b.position))
+    .map(({ subject, unit, topics: unitTopics }) => ({ subject, unit, topics: unitTopics }));
+}
@@ -0,0 +1,11 @@
+interface QuestionLabelParts {
+  question_number: string;
+  sub_part: string | null;
+}
+
+/** Formats a segmented question the way papers print it, e.g. "Q3(b)". */
+export function formatQuestionLabel(question: QuestionLabelParts): string {
+  return question.sub_part
+    ? `Q${question.question_number}(${question.sub_part})`
+    : `Q${question.question_number}`;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { findRepeatedQuestions, type ClusterableQuestion } from "@/lib/repeatedQuestions";
+
+let nextId = 0;
+const question = (year: string, text: string, changes: Partial<ClusterableQuestion> = {}): ClusterableQuestion => ({
+  id: `q${++nextId}`,
+  paperId: `paper-${year}`,
+  subject: "DSA",
+  year,
+  text,
+  marks: null,
+  ...changes,
+});
+
+const clusterTexts = (questions: ClusterableQuestion[]) =>
+  findRepeatedQuestions(questions).map((cluster) => cluster.questions.map((q) => q.text));
+
+describe("findRepeatedQuestions", () => {
+  it("groups rephrasings of one question from different years", () => {
+    const [cluster, ...rest] = findRepeatedQuestions([
+      question("2019", "Explain the working of quick sort algorithm."),
+      question("2021", "Describe the quick sort algorithm and its working with an example."),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(cluster.years).toEqual(["2019", "2021"]);
+    expect(cluster.representative.text).toBe("Describe the quick sort algorithm and its working with an example.");
+  });
+
+  it("treats words one typo apart as the same word", () => {
+    expect(
+      clusterTexts([
+        question("2019", "Explain Dijkstra shortest path algorithm."),
+        question("2020", "Explain Dijkstra shortest path algoritm."),
+      ])
+    ).toHaveLength(1);
+  });
+
+  it("keeps questions apart when their distinctive words differ", () => {
+    expect(
+      clusterTexts([
+        question("2019", "Explain quick sort algorithm complexity."),
+        question("2020", "Explain merge sort algorithm complexity."),
+      ])
+    ).toEqual([]);
+  });
+
+  it("ignores questions with too few keywords to compare", () => {
+    expect(clusterTexts([question("2019", "Define entropy."), question("2020", "Define entropy.")])).toEqual([]);
+  });
+
+  it("doesn't count parts of the same paper as repeats", () => {
+    expect(
+      clusterTexts([
+        question("2019", "Explain binary search tree insertion."),
+        question("2019", "Explain binary search tree insertion with steps."),
+      ])
+    ).toEqual([]);
+  });
+
+  it("only compares questions of the same subject, whatever its case or spacing", () => {
+    const text = "Explain binary search tree insertion.";
+
+    expect(clusterTexts([question("2019", text), question("2020", text, { subject: "Networks" })])).toEqual([]);
+    expect(clusterTexts([question("2019", text), question("2020", text, { subject: " dsa " })])).toHaveLength(1);
+  });
+
+  it("lists the clusters asked in the most years first", () => {
+    const clusters = findRepeatedQuestions([
+      question("2019", "Explain binary search tree insertion."),
+      question("2020", "Explain binary search tree insertion."),
+      question("2018", "Describe Kruskal minimum spanning tree construction."),
+      question("2020", "Describe Kruskal minimum spanning tree construction."),
+      question("2022", "Describe Kruskal minimum spanning tree construction."),
+    ]);
+
+    expect(clusters.map((cluster) => cluster.years)).toEqual([
+      ["2018", "2020", "2022"],
+      ["2019", "2020"],
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { keywords } from "@/lib/topicMatching";
+
+// Finds questions that were asked again in later papers. Questions are
+// reduced to stemmed content words, so rephrasings like "Explain X" and
+// "Describe X with an example" compare equal, and words one typo apart count
+// as the same word so OCR slips still match. Rare words weigh more than words
+// every question in the subject uses, so "quick sort" and "merge sort" stay
+// apart. Similar pairs are joined into clusters with union-find.
+
+export interface ClusterableQuestion {
+  id: string;
+  paperId: string;
+  subject: string;
+  year: string;
+  text: string;
+  marks: number | null;
+}
+
+export interface QuestionCluster {
+  id: string;
+  subject: string;
+  /** The longest wording, which is usually the most complete */
+  representative: ClusterableQuestion;
+  questions: ClusterableQuestion[];
+  /** Distinct exam years, oldest first */
+  years: string[];
+}
+
+const SIMILARITY_THRESHOLD = 0.55;
+// Short questions ("Define entropy.") match too easily on one or two words
+const MIN_KEYWORDS = 3;
+// Words in more questions than this are too common to find candidates by
+const MAX_POSTINGS = 200;
+const MIN_FUZZY_WORD_LENGTH = 5;
+
+interface Prepared {
+  question: ClusterableQuestion;
+  words: string[];
+}
+
+/** Whether two words are equal or, when long enough, one insertion, deletion or substitution apart. */
+function wordsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a.length < MIN_FUZZY_WORD_LENGTH || b.length < MIN_FUZZY_WORD_LENGTH || Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/** Weighted Jaccard similarity of two questions' words, 0-1. */
+function questionSimilarity(a: Prepared, b: Prepared, weight: (word: string) => number): number {
+  let shared = 0;
+  let total = 0;
+  const matchedInB = new Set<string>();
+
+  for (const word of a.words) {
+    const match = b.words.find((other) => !matchedInB.has(other) && wordsMatch(word, other));
+    if (match) {
+      matchedInB.add(match);
+      shared += weight(word);
+    }
+    total += weight(word);
+  }
+  for (const word of b.words) if (!matchedInB.has(word)) total += weight(word);
+
+  return total > 0 ? shared / total : 0;
+}
+
+const prepare = (question: ClusterableQuestion): Prepared => ({
+  question,
+  words: [...keywords(question.text)],
+});
+
+function createUnionFind(size: number) {
+  const parent = Array.from({ length: size }, (_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  return {
+    find,
+    union: (a: number, b: number) => {
+      parent[find(a)] = find(b);
+    },
+  };
+}
+
+function clusterSubject(questions: Prepared[]): Prepared[][] {
+  const postings = new Map<string, number[]>();
+  questions.forEach((prepared, index) => {
+    for (const word of prepared.words) {
+      const list = postings.get(word) ?? [];
+      list.push(index);
+      postings.set(word, list);
+    }
+  });
+
+  // Inverse document frequency; typo'd words are rare, so they weigh as much as a distinctive word
+  const weight = (word: string) => Math.log(1 + questions.length / (postings.get(word)?.length ?? 1));
+
+  const sets = createUnionFind(questions.length);
+  questions.forEach((prepared, index) => {
+    const candidates = new Set<number>();
+    for (const word of prepared.words) {
+      const list = postings.get(word)!;
+      if (list.length > MAX_POSTINGS) continue;
+      for (const other of list) if (other > index) candidates.add(other);
+    }
+
+    for (const other of candidates) {
+      // Parts of the same paper are related questions, not repeats
+      if (questions[other].question.paperId === prepared.question.paperId) continue;
+      if (questionSimilarity(prepared, questions[other], weight) >= SIMILARITY_THRESHOLD) sets.union(index, other);
+    }
+  });
+
+  const groups = new Map<number, Prepared[]>();
+  questions.forEach((prepared, index) => {
+    const root = sets.find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(prepared);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Groups near-identical questions asked in two or more papers of the same
+ * subject. Clusters come back most-repeated first.
+ */
+export function findRepeatedQuestions(questions: ClusterableQuestion[]): QuestionCluster[] {
+  const bySubject = new Map<string, Prepared[]>();
+  for (const question of questions) {
+    const prepared = prepare(question);
+    if (prepared.words.length < MIN_KEYWORDS) continue;
+    const key = question.subject.trim().toLowerCase();
+    if (!bySubject.has(key)) bySubject.set(key, []);
+    bySubject.get(key)!.push(prepared);
+  }
+
+  const clusters: QuestionCluster[] = [];
+  for (const subjectQuestions of bySubject.values()) {
+    for (const group of clusterSubject(subjectQuestions)) {
+      const members = group.map((prepared) => prepared.question);
+      if (new Set(members.map((question) => question.paperId)).size < 2) continue;
+
+      members.sort((a, b) => a.year.localeCompare(b.year));
+      const representative = members.reduce((longest, question) =>
+        question.text.length > longest.text.length ? question : longest
+      );
+      clusters.push({
+        id: representative.id,
+        subject: representative.subject,
+        representative,
+        questions: members,
+        years: [...new Set(members.map((question) => question.year))],
+      });
+    }
+  }
+
+  return clusters.sort((a, b) => b.years.length - a.years.length || b.questions.length - a.questions.length);
+}
@@ -0,0 +1,68 @@
+import * as tus from "tus-js-client";
+import { supabase } from "@/integrations/supabase/client";
+
+const RESUMABLE_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+// Supabase Storage only accepts 6 MB chunks on its resumable endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const RETRY_DELAYS_MS = [0, 3000, 5000, 10000, 20000];
+
+/**
+ * Uploads a file through Supabase's TUS endpoint. Interrupted uploads are
+ * remembered in localStorage, so adding the same file again after a refresh
+ * or a dropped connection continues where it stopped. The object path of a
+ * resumed upload is the one chosen the first time, which is why the path that
+ * was actually written is returned.
+ */
+export async function uploadResumable(
+  bucket: string,
+  storagePath: string,
+  file: File,
+  userId: string,
+  onProgress?: (percent: number) => void
+): Promise<string> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) throw new Error("You need to be signed in to upload");
+
+  const upload = new tus.Upload(file, {
+    endpoint: RESUMABLE_ENDPOINT,
+    chunkSize: CHUNK_SIZE,
+    retryDelays: RETRY_DELAYS_MS,
+    headers: {
+      "x-upsert": "false",
+    },
+    // A large upload can outlive the access token, so each chunk asks for the current one
+    onBeforeRequest: async (req) => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) throw new Error("You need to be signed in to upload");
+      req.setHeader("authorization", `Bearer ${data.session.access_token}`);
+    },
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: bucket,
+      objectName: storagePath,
+      contentType: file.type || "application/octet-stream",
+      cacheControl: "3600",
+    },
+    // Scoped to the user and bucket so one account never resumes another's upload
+    fingerprint: async (f: File) => `${userId}-${bucket}-${f.name}-${f.type}-${f.size}-${f.lastModified}`,
+    onProgress: (bytesSent, bytesTotal) => onProgress?.(Math.round((bytesSent / bytesTotal) * 100)),
+  });
+
+  const [previous] = await upload.findPreviousUploads();
+  const objectName = previous?.metadata.objectName ?? storagePath;
+  if (previous) {
+    // Keep the original path even if the stored upload has expired and tus starts over
+    upload.options.metadata = { ...upload.options.metadata, objectName };
+    upload.resumeFromPreviousUpload(previous);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    upload.options.onSuccess = () => resolve();
+    upload.options.onError = reject;
+    upload.start();
+  });
+
+  return objectName;
+}
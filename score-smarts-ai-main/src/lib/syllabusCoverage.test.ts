@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  blindSpots,
+  classifyCoverage,
+  MIN_YEARS_FOR_BLIND_SPOTS,
+  type CoverageStatus,
+  type CoverageTopic,
+  type SubjectCoverage,
+} from "@/lib/syllabusCoverage";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const topic = (id: string, status: CoverageStatus): CoverageTopic => ({
+  id,
+  title: id,
+  subtopics: [],
+  status,
+  yearsAsked: [],
+  questions: 0,
+});
+
+const coverage = (years: string[]): SubjectCoverage => ({
+  subject: "DSA",
+  years,
+  units: [
+    { title: "Unit 1", topics: [topic("stacks", "every_year"), topic("deques", "never")] },
+    { title: "Unit 2", topics: [topic("heaps", "once"), topic("tries", "never")] },
+  ],
+  counts: { never: 2, once: 1, sometimes: 0, every_year: 1 },
+});
+
+describe("classifyCoverage", () => {
+  it("classifies by how many of the analyzed years asked the topic", () => {
+    expect(classifyCoverage(0, 4)).toBe("never");
+    expect(classifyCoverage(1, 4)).toBe("once");
+    expect(classifyCoverage(3, 4)).toBe("sometimes");
+    expect(classifyCoverage(4, 4)).toBe("every_year");
+  });
+
+  it("does not call a single analyzed year every year", () => {
+    expect(classifyCoverage(1, 1)).toBe("once");
+  });
+});
+
+describe("blindSpots", () => {
+  it("lists never-asked topics across units", () => {
+    expect(blindSpots(coverage(["2021", "2022"])).map((t) => t.id)).toEqual(["deques", "tries"]);
+  });
+
+  it("stays quiet until enough years were analyzed", () => {
+    const years = ["2019", "2020", "2021"].slice(0, MIN_YEARS_FOR_BLIND_SPOTS - 1);
+
+    expect(blindSpots(coverage(years))).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { supabase } from "@/integrations/supabase/client";
+import { byYear, subjectKey } from "@/lib/common";
+
+// Cross-references each confirmed syllabus with the analyzed past papers:
+// which topics were never asked, asked once, now and then, or every year.
+// Uses the per-year counts the analysis stored on important_topics, so it
+// reflects the last analysis run.
+
+export type CoverageStatus = "never" | "once" | "sometimes" | "every_year";
+
+export interface CoverageTopic {
+  id: string;
+  title: string;
+  subtopics: string[];
+  status: CoverageStatus;
+  /** Exam years the topic was asked in, oldest first */
+  yearsAsked: string[];
+  questions: number;
+}
+
+export interface CoverageUnit {
+  title: string;
+  topics: CoverageTopic[];
+}
+
+export interface SubjectCoverage {
+  subject: string;
+  /** Exam years with segmented papers, oldest first */
+  years: string[];
+  units: CoverageUnit[];
+  counts: Record<CoverageStatus, number>;
+}
+
+export const COVERAGE_STATUSES: { value: CoverageStatus; label: string }[] = [
+  { value: "never", label: "Never asked" },
+  { value: "once", label: "Asked once" },
+  { value: "sometimes", label: "Sometimes" },
+  { value: "every_year", label: "Every year" },
+];
+
+// With fewer years, "never asked" says more about the papers than the topic
+export const MIN_YEARS_FOR_BLIND_SPOTS = 2;
+
+export function classifyCoverage(yearsAsked: number, yearsTotal: number): CoverageStatus {
+  if (yearsAsked === 0) return "never";
+  if (yearsAsked >= yearsTotal && yearsTotal > 1) return "every_year";
+  if (yearsAsked === 1) return "once";
+  return "sometimes";
+}
+
+/** Syllabus topics never asked in any analyzed paper, once there are enough years to tell. */
+export function blindSpots(coverage: SubjectCoverage): CoverageTopic[] {
+  if (coverage.years.length < MIN_YEARS_FOR_BLIND_SPOTS) return [];
+  return coverage.units.flatMap((unit) => unit.topics.filter((topic) => topic.status === "never"));
+}
+
+/** Coverage of every subject that has a confirmed syllabus. */
+export async function loadCoverage(userId: string): Promise<SubjectCoverage[]> {
+  const [
+    { data: syllabi, error: syllabusError },
+    { data: analyzed, error: topicsError },
+    { data: papers, error: papersError },
+  ] = await Promise.all([
+    supabase
+      .from("syllabus")
+      .select("title, course_name, syllabus_units(title, position, syllabus_topics(id, parent_id, title, position))")
+      .eq("user_id", userId)
+      .eq("tree_status", "confirmed"),
+    supabase
+      .from("important_topics")
+      .select("syllabus_topic_id, frequency, year_counts")
+      .eq("user_id", userId)
+      .not("syllabus_topic_id", "is", null),
+    supabase.from("past_papers").select("subject, year, paper_questions(count)").eq("user_id", userId),
+  ]);
+  if (syllabusError) throw syllabusError;
+  if (topicsError) throw topicsError;
+  if (papersError) throw papersError;
+
+  const askedByTopic = new Map(
+    (analyzed || []).map((row) => [
+      row.syllabus_topic_id!,
+      { questions: row.frequency ?? 0, yearCounts: (row.year_counts ?? {}) as Record<string, number> },
+    ])
+  );
+
+  // Only papers that were segmented into questions were analyzed
+  const yearsBySubject = new Map<string, Set<string>>();
+  for (const paper of papers || []) {
+    if ((paper.paper_questions[0]?.count ?? 0) === 0) continue;
+    const key = subjectKey(paper.subject);
+    if (!yearsBySubject.has(key)) yearsBySubject.set(key, new Set());
+    yearsBySubject.get(key)!.add(paper.year);
+  }
+
+  const subjects = new Map<string, SubjectCoverage>();
+  for (const syllabus of syllabi || []) {
+    const name = (syllabus.course_name ?? syllabus.title).trim();
+    const years = [...(yearsBySubject.get(subjectKey(name)) ?? [])].sort(byYear);
+    const coverage = subjects.get(subjectKey(name)) ?? {
+      subject: name,
+      years,
+      units: [],
+      counts: { never: 0, once: 0, sometimes: 0, every_year: 0 },
+    };
+
+    for (const unit of [...syllabus.syllabus_units].sort((a, b) => a.position - b.position)) {
+      const topics = [...unit.syllabus_topics].sort((a, b) => a.position - b.position);
+      coverage.units.push({
+        title: unit.title,
+        topics: topics
+          .filter((topic) => topic.parent_id === null)
+          .map((topic) => {
+            const asked = askedByTopic.get(topic.id);
+            const yearsAsked = Object.keys(asked?.yearCounts ?? {})
+              .filter((year) => asked!.yearCounts[year] > 0)
+              .sort(byYear);
+            const status = classifyCoverage(yearsAsked.length, years.length);
+            coverage.counts[status] += 1;
+            return {
+              id: topic.id,
+              title: topic.title,
+              subtopics: topics.filter((sub) => sub.parent_id === topic.id).map((sub) => sub.title),
+              status,
+              yearsAsked,
+              questions: asked?.questions ?? 0,
+            };
+          }),
+      });
+    }
+    subjects.set(subjectKey(name), coverage);
+  }
+
+  return [...subjects.values()].sort((a, b) => a.subject.localeCompare(b.subject));
+}
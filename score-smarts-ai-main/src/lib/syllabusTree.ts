@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SyllabusTopicNode {
+  id: string;
+  title: string;
+  subtopics: SyllabusTopicNode[];
+}
+
+export interface SyllabusUnitNode {
+  id: string;
+  title: string;
+  hours: number | null;
+  weightage: number | null;
+  topics: SyllabusTopicNode[];
+}
+
+export interface SyllabusTree {
+  courseName: string;
+  units: SyllabusUnitNode[];
+}
+
+export async function loadSyllabusTree(syllabusId: string): Promise<SyllabusTree> {
+  const [{ data: syllabus, error: syllabusError }, { data: units, error: unitsError }] = await Promise.all([
+    supabase.from("syllabus").select("title, course_name").eq("id", syllabusId).single(),
+    supabase
+      .from("syllabus_units")
+      .select("id, title, hours, weightage, position, syllabus_topics(id, parent_id, title, position)")
+      .eq("syllabus_id", syllabusId)
+      .order("position"),
+  ]);
+
+  if (syllabusError) throw syllabusError;
+  if (unitsError) throw unitsError;
+
+  const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+  return {
+    courseName: syllabus.course_name ?? syllabus.title,
+    units: (units || []).map((unit) => {
+      const topics = [...unit.syllabus_topics].sort(byPosition);
+      return {
+        id: unit.id,
+        title: unit.title,
+        hours: unit.hours,
+        weightage: unit.weightage,
+        topics: topics
+          .filter((topic) => topic.parent_id === null)
+          .map((topic) => ({
+            id: topic.id,
+            title: topic.title,
+            subtopics: topics
+              .filter((sub) => sub.parent_id === topic.id)
+              .map((sub) => ({ id: sub.id, title: sub.title, subtopics: [] })),
+          })),
+      };
+    }),
+  };
+}
+
+const collectIds = (tree: SyllabusTree) => ({
+  units: tree.units.map((unit) => unit.id),
+  topics: tree.units.flatMap((unit) =>
+    unit.topics.flatMap((topic) => [topic.id, ...topic.subtopics.map((sub) => sub.id)])
+  ),
+});
+
+/**
+ * Writes the reviewed tree back and marks the syllabus confirmed. Nodes keep
+ * their ids (new ones are generated client-side) so anything already linked
+ * to a topic survives the review.
+ */
+export async function confirmSyllabusTree(
+  syllabusId: string,
+  userId: string,
+  original: SyllabusTree,
+  edited: SyllabusTree
+) {
+  const keptIds = collectIds(edited);
+  const originalIds = collectIds(original);
+  const removedUnits = originalIds.units.filter((id) => !keptIds.units.includes(id));
+  const removedTopics = originalIds.topics.filter((id) => !keptIds.topics.includes(id));
+
+  if (removedTopics.length > 0) {
+    const { error } = await supabase.from("syllabus_topics").delete().in("id", removedTopics);
+    if (error) throw error;
+  }
+  if (removedUnits.length > 0) {
+    const { error } = await supabase.from("syllabus_units").delete().in("id", removedUnits);
+    if (error) throw error;
+  }
+
+  if (edited.units.length > 0) {
+    const { error: unitsError } = await supabase.from("syllabus_units").upsert(
+      edited.units.map((unit, position) => ({
+        id: unit.id,
+        user_id: userId,
+        syllabus_id: syllabusId,
+        title: unit.title.trim(),
+        hours: unit.hours,
+        weightage: unit.weightage,
+        position,
+      }))
+    );
+    if (unitsError) throw unitsError;
+  }
+
+  // Parents before subtopics so parent_id always points at an existing row
+  const topics = edited.units.flatMap((unit) =>
+    unit.topics.map((topic, position) => ({
+      id: topic.id,
+      user_id: userId,
+      unit_id: unit.id,
+      parent_id: null,
+      title: topic.title.trim(),
+      position,
+    }))
+  );
+  const subtopics = edited.units.flatMap((unit) =>
+    unit.topics.flatMap((topic) =>
+      topic.subtopics.map((sub, position) => ({
+        id: sub.id,
+        user_id: userId,
+        unit_id: unit.id,
+        parent_id: topic.id,
+        title: sub.title.trim(),
+        position,
+      }))
+    )
+  );
+
+  for (const rows of [topics, subtopics]) {
+    if (rows.length === 0) continue;
+    const { error } = await supabase.from("syllabus_topics").upsert(rows);
+    if (error) throw error;
+  }
+
+  const { error: syllabusError } = await supabase
+    .from("syllabus")
+    .update({ course_name: edited.courseName.trim(), tree_status: "confirmed" })
+    .eq("id", syllabusId);
+  if (syllabusError) throw syllabusError;
+}
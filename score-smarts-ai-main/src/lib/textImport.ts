@@ -0,0 +1,110 @@
+import mammoth from "mammoth";
+import { supabase } from "@/integrations/supabase/client";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Legacy .doc files cannot be read in the browser and are rejected by validateFile
+const CONVERTIBLE_TYPES = [DOCX_MIME_TYPE, "text/markdown", "text/plain"];
+
+export interface ConvertedDocument {
+  /** First heading, or the file name without its extension */
+  title: string;
+  /** Markdown-style text: `#` headings, `-` list items, blank lines between blocks */
+  content: string;
+}
+
+/** Whether a validated file can be turned into text by {@link convertDocument}. */
+export const isConvertible = (file: File) => CONVERTIBLE_TYPES.includes(file.type);
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+function listToMarkdown(list: Element, depth: number): string[] {
+  const lines: string[] = [];
+  let number = 1;
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== "LI") continue;
+    const nested = Array.from(item.children).filter((child) => child.tagName === "UL" || child.tagName === "OL");
+    const ownText = Array.from(item.childNodes)
+      .filter((node) => !nested.includes(node as Element))
+      .map((node) => node.textContent ?? "")
+      .join(" ");
+
+    const marker = list.tagName === "OL" ? `${number++}.` : "-";
+    lines.push(`${"  ".repeat(depth)}${marker} ${collapseWhitespace(ownText)}`);
+    for (const child of nested) lines.push(...listToMarkdown(child, depth + 1));
+  }
+
+  return lines;
+}
+
+function blockToMarkdown(element: Element): string {
+  const heading = /^H([1-6])$/.exec(element.tagName);
+  if (heading) return `${"#".repeat(Number(heading[1]))} ${collapseWhitespace(element.textContent ?? "")}`;
+
+  switch (element.tagName) {
+    case "UL":
+    case "OL":
+      return listToMarkdown(element, 0).join("\n");
+    case "TABLE":
+      return Array.from(element.querySelectorAll("tr"))
+        .map((row) =>
+          Array.from(row.children)
+            .map((cell) => collapseWhitespace(cell.textContent ?? ""))
+            .join(" | ")
+        )
+        .join("\n");
+    default:
+      return collapseWhitespace(element.textContent ?? "");
+  }
+}
+
+/** Flattens mammoth's HTML into the Markdown-style text stored for every document. */
+export function htmlToText(html: string): string {
+  const body = new DOMParser().parseFromString(html, "text/html").body;
+  return Array.from(body.children)
+    .map(blockToMarkdown)
+    .filter((block) => block !== "")
+    .join("\n\n");
+}
+
+const normalizeText = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+/**
+ * Converts a Word, Markdown or text file into the internal text
+ * representation. Word headings become `#` headings so the syllabus parser
+ * and the AI still see the document's structure; Markdown is already in that
+ * form.
+ */
+export async function convertDocument(file: File): Promise<ConvertedDocument> {
+  const content =
+    file.type === DOCX_MIME_TYPE
+      ? htmlToText((await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() })).value)
+      : normalizeText(await file.text());
+
+  if (content === "") throw new Error("The document has no text in it");
+
+  const heading = /^#{1,6}\s+(.+)$/m.exec(content);
+  return {
+    title: heading ? heading[1].trim() : file.name.replace(/\.[^.]+$/, ""),
+    content,
+  };
+}
+
+/** Converts a file and saves it as a study note. Returns the new note's id. */
+export async function importStudyNote(file: File, userId: string): Promise<string> {
+  const { title, content } = await convertDocument(file);
+
+  const { data, error } = await supabase
+    .from("study_notes")
+    .insert({ user_id: userId, title, content })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { recordTopicMentions, resolveTopic, suggestMerges, topicKey, type TopicAlias } from "@/lib/topicAliases";
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for recordTopicMentions, over in-memory tables
+const tables = vi.hoisted(() => ({ important_topics: [] as Row[], topic_aliases: [] as Row[] }));
+
+vi.mock("@/integrations/supabase/client", () => {
+  const from = (table: keyof typeof tables) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let insert: Row | null = null;
+    let update: Row | null = null;
+    let single = false;
+
+    const run = () => {
+      if (insert) {
+        const row = { id: `${table}-${tables[table].length + 1}`, syllabus_topic_id: null, ...insert };
+        tables[table].push(row);
+        return { data: { ...row }, error: null };
+      }
+      const rows = tables[table].filter((row) => filters.every((matches) => matches(row)));
+      if (update) rows.forEach((row) => Object.assign(row, update));
+      const data = rows.map((row) => ({ ...row }));
+      return { data: single ? data[0] ?? null : data, error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      insert: (row: Row) => {
+        insert = row;
+        return builder;
+      },
+      update: (changes: Row) => {
+        update = changes;
+        return builder;
+      },
+      single: () => {
+        single = true;
+        return builder;
+      },
+      then: (resolve: (result: ReturnType<typeof run>) => unknown) => resolve(run()),
+    };
+    return builder;
+  };
+  return { supabase: { from } };
+});
+
+const topic = (id: string, name: string, frequency: number, syllabus_topic_id: string | null = null) => ({
+  id,
+  user_id: "user",
+  subject: "DSA",
+  topic: name,
+  frequency,
+  syllabus_topic_id,
+});
+
+const alias = (id: string, topic_id: string, name: string, mentions = 1) => ({
+  id,
+  user_id: "user",
+  subject: "DSA",
+  topic_id,
+  alias: name,
+  alias_key: topicKey(name),
+  mentions,
+});
+
+describe("topicKey", () => {
+  it("ignores case, plurals, word order and filler words", () => {
+    expect(topicKey("Binary Search Trees")).toBe(topicKey("tree search binary"));
+    expect(topicKey("Introduction to Graphs")).toBe(topicKey("graph"));
+  });
+});
+
+describe("resolveTopic", () => {
+  const topics = [topic("t1", "Binary Trees", 3), topic("t2", "Laws of Motion", 2)];
+  const aliases: TopicAlias[] = [alias("a1", "t2", "Newton's Laws")];
+
+  it("resolves a stored alias to the topic it names", () => {
+    expect(resolveTopic("newtons law", topics, aliases)?.id).toBe("t2");
+  });
+
+  it("falls back to a topic with the same key", () => {
+    expect(resolveTopic("binary tree", topics, aliases)?.id).toBe("t1");
+    expect(resolveTopic("Heaps", topics, aliases)).toBeNull();
+  });
+});
+
+describe("suggestMerges", () => {
+  it("groups synonyms most-mentioned first and leaves single words alone", () => {
+    const groups = suggestMerges([
+      topic("t1", "Newton's Laws", 1),
+      topic("t2", "Newton's Laws of Motion", 4),
+      topic("t3", "Trees", 2),
+      topic("t4", "Binary Trees", 5),
+    ]);
+
+    expect(groups.map((group) => group.map((t) => t.id))).toEqual([["t2", "t1"]]);
+  });
+});
+
+describe("recordTopicMentions", () => {
+  beforeEach(() => {
+    tables.important_topics = [];
+    tables.topic_aliases = [];
+  });
+
+  it("counts a mention that matches an alias against the topic the alias names", async () => {
+    tables.important_topics = [topic("motion", "Laws of Motion", 2), topic("newton", "Newton", 5)];
+    tables.topic_aliases = [alias("a1", "motion", "Newton's Laws", 2)];
+
+    await recordTopicMentions("user", "DSA", ["newtons laws"]);
+
+    expect(tables.important_topics.map((row) => [row.id, row.frequency])).toEqual([
+      ["motion", 3],
+      ["newton", 5],
+    ]);
+    expect(tables.topic_aliases).toEqual([alias("a1", "motion", "Newton's Laws", 3)]);
+  });
+
+  it("keeps a mention of an analysis topic as an alias without changing its question count", async () => {
+    tables.important_topics = [topic("analysis", "Binary Search Trees", 7, "syllabus-topic")];
+    tables.topic_aliases = [alias("a1", "analysis", "BST")];
+
+    await recordTopicMentions("user", "DSA", ["BST", "binary search tree"]);
+
+    expect(tables.important_topics).toEqual([topic("analysis", "Binary Search Trees", 7, "syllabus-topic")]);
+    expect(tables.topic_aliases.map((row) => [row.topic_id, row.alias, row.mentions])).toEqual([
+      ["analysis", "BST", 2],
+      ["analysis", "binary search tree", 1],
+    ]);
+  });
+
+  it("creates a topic and an alias for a new name, once per answer", async () => {
+    await recordTopicMentions("user", "DSA", ["Heaps", "heap", " "]);
+
+    expect(tables.important_topics.map((row) => [row.topic, row.frequency])).toEqual([["Heaps", 1]]);
+    expect(tables.topic_aliases.map((row) => [row.alias, row.mentions])).toEqual([["Heaps", 1]]);
+  });
+});
@@ -0,0 +1,248 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { keywords } from "@/lib/topicMatching";
+import { UNIQUE_VIOLATION } from "@/lib/common";
+
+// Canonical topics for the names the AI mentions. Names that differ only in
+// case, plurals, word order or filler words resolve to the same
+// important_topics row on their own. Looser synonyms ("Newton's Laws" and
+// "Laws of Motion") are only suggested for merging, because containment alone
+// also pairs "Binary Trees" with "Binary Search Tree"; once merged, every
+// wording is kept as an alias and later mentions resolve through it. Topics
+// found by the past-paper analysis are already canonical syllabus topics: a
+// mention resolves to them like to any other topic, but only as an alias,
+// since their frequency counts past-paper questions, and they are left out of
+// merging.
+
+export type TopicAlias = Pick<Tables<"topic_aliases">, "id" | "topic_id" | "alias" | "alias_key" | "mentions">;
+
+export interface MergeableTopic {
+  id: string;
+  subject: string;
+  topic: string;
+  frequency: number | null;
+}
+
+interface RecordedTopic extends MergeableTopic {
+  /** Set on topics found by the analysis */
+  syllabus_topic_id: string | null;
+}
+
+/** Sorted stemmed keywords, so word order, case, plurals and filler words don't matter. */
+export function topicKey(name: string): string {
+  return [...keywords(name)].sort().join(" ") || name.trim().toLowerCase();
+}
+
+/**
+ * Whether two topic names mean the same thing: equal keys, or every keyword
+ * of the shorter name (at least two of them) appears in the longer one.
+ * Single words are too vague to match on containment.
+ */
+function areSynonyms(a: string, b: string): boolean {
+  const keyA = topicKey(a);
+  const keyB = topicKey(b);
+  if (keyA === keyB) return true;
+
+  const wordsA = new Set(keyA.split(" "));
+  const wordsB = keyB.split(" ");
+  const shared = wordsB.filter((word) => wordsA.has(word)).length;
+  return shared >= 2 && shared === Math.min(wordsA.size, wordsB.length);
+}
+
+/** The canonical topic a mentioned name belongs to, if any: a stored alias first, then an equal key. */
+export function resolveTopic<T extends MergeableTopic>(name: string, topics: T[], aliases: TopicAlias[]): T | null {
+  const key = topicKey(name);
+  const alias = aliases.find((a) => a.alias_key === key);
+  const aliased = alias && topics.find((topic) => topic.id === alias.topic_id);
+  if (aliased) return aliased;
+
+  return topics.find((topic) => topicKey(topic.topic) === key) ?? null;
+}
+
+/**
+ * Groups of topics in the same subject that look like one topic under
+ * different names, most-mentioned first since that is most likely the name
+ * the user recognizes.
+ */
+export function suggestMerges<T extends MergeableTopic>(topics: T[]): T[][] {
+  let groups: T[][] = [];
+  for (const topic of topics) {
+    const related = groups.filter((group) =>
+      group.some((other) => other.subject === topic.subject && areSynonyms(topic.topic, other.topic))
+    );
+    groups = [...groups.filter((group) => !related.includes(group)), [...related.flat(), topic]];
+  }
+
+  return groups
+    .filter((group) => group.length > 1)
+    .map((group) => group.sort((a, b) => (b.frequency ?? 0) - (a.frequency ?? 0)));
+}
+
+export async function loadTopicAliases(userId: string): Promise<TopicAlias[]> {
+  const { data, error } = await supabase
+    .from("topic_aliases")
+    .select("id, topic_id, alias, alias_key, mentions")
+    .eq("user_id", userId)
+    .order("alias");
+  if (error) throw error;
+  return data || [];
+}
+
+async function findTopicNamed(userId: string, subject: string, name: string) {
+  const { data, error } = await supabase
+    .from("important_topics")
+    .select("id, subject, topic, frequency, syllabus_topic_id")
+    .eq("user_id", userId)
+    .eq("subject", subject)
+    .eq("topic", name)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Counts one mention of each name under its canonical topic in `subject`,
+ * creating the topic when nothing matches and remembering the wording as
+ * an alias.
+ */
+export async function recordTopicMentions(userId: string, subject: string, names: string[]) {
+  const [{ data: topicRows, error: topicsError }, { data: aliasRows, error: aliasesError }] = await Promise.all([
+    supabase
+      .from("important_topics")
+      .select("id, subject, topic, frequency, syllabus_topic_id")
+      .eq("user_id", userId)
+      .eq("subject", subject),
+    supabase
+      .from("topic_aliases")
+      .select("id, topic_id, alias, alias_key, mentions")
+      .eq("user_id", userId)
+      .eq("subject", subject),
+  ]);
+  if (topicsError) throw topicsError;
+  if (aliasesError) throw aliasesError;
+
+  const topics: RecordedTopic[] = topicRows || [];
+  const aliases: TopicAlias[] = aliasRows || [];
+
+  // One mention per topic per answer, however many wordings of it the answer used
+  const mentioned = new Map<string, string>();
+  for (const name of names.map((n) => n.trim()).filter(Boolean)) {
+    if (!mentioned.has(topicKey(name))) mentioned.set(topicKey(name), name);
+  }
+  const counted = new Set<string>();
+
+  for (const [key, name] of mentioned) {
+    let topic = resolveTopic(name, topics, aliases);
+    if (!topic) {
+      const { data, error } = await supabase
+        .from("important_topics")
+        .insert({ user_id: userId, subject, topic: name, frequency: 1 })
+        .select("id, subject, topic, frequency, syllabus_topic_id")
+        .single();
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+      if (data) counted.add(data.id);
+      // Otherwise another answer stored the name since the topics were read
+      topic = data ?? (await findTopicNamed(userId, subject, name));
+      topics.push(topic);
+    }
+
+    if (!counted.has(topic.id)) {
+      counted.add(topic.id);
+      if (topic.syllabus_topic_id === null) {
+        topic.frequency = (topic.frequency ?? 0) + 1;
+        const { error } = await supabase.from("important_topics").update({ frequency: topic.frequency }).eq("id", topic.id);
+        if (error) throw error;
+      }
+    }
+
+    const alias = aliases.find((a) => a.alias_key === key);
+    if (alias) {
+      alias.mentions += 1;
+      const { error } = await supabase.from("topic_aliases").update({ mentions: alias.mentions }).eq("id", alias.id);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase
+        .from("topic_aliases")
+        .insert({ user_id: userId, topic_id: topic.id, subject, alias: name, alias_key: key, mentions: 1 })
+        .select("id, topic_id, alias, alias_key, mentions")
+        .single();
+      if (error) throw error;
+      aliases.push(data);
+    }
+  }
+}
+
+/**
+ * Folds `merged` into `target`: their mentions are added to the target and
+ * their names become aliases of it, so later mentions resolve to the target.
+ */
+export async function mergeTopics(userId: string, target: MergeableTopic, merged: MergeableTopic[]) {
+  const topics = [target, ...merged];
+  const { data: existing, error: loadError } = await supabase
+    .from("topic_aliases")
+    .select("id, topic_id, alias, alias_key, mentions")
+    .eq("user_id", userId)
+    .eq("subject", target.subject);
+  if (loadError) throw loadError;
+
+  // Topics recorded before aliases existed have no alias for their own name yet;
+  // give it the mentions no other alias accounts for, so a split can return them
+  const missing = topics
+    .filter((topic) => !(existing || []).some((alias) => alias.alias_key === topicKey(topic.topic)))
+    .map((topic) => {
+      const aliased = (existing || [])
+        .filter((alias) => alias.topic_id === topic.id)
+        .reduce((sum, alias) => sum + alias.mentions, 0);
+      return {
+        user_id: userId,
+        topic_id: topic.id,
+        subject: target.subject,
+        alias: topic.topic,
+        alias_key: topicKey(topic.topic),
+        mentions: Math.max(0, (topic.frequency ?? 0) - aliased),
+      };
+    })
+    // Two merged names can share a key; the first one is enough
+    .filter((row, index, rows) => rows.findIndex((other) => other.alias_key === row.alias_key) === index);
+  if (missing.length > 0) {
+    const { error } = await supabase.from("topic_aliases").insert(missing);
+    if (error) throw error;
+  }
+
+  const mergedIds = merged.map((topic) => topic.id);
+  const { error: aliasError } = await supabase
+    .from("topic_aliases")
+    .update({ topic_id: target.id })
+    .in("topic_id", mergedIds);
+  if (aliasError) throw aliasError;
+
+  const frequency = topics.reduce((sum, topic) => sum + (topic.frequency ?? 0), 0);
+  const { error: updateError } = await supabase.from("important_topics").update({ frequency }).eq("id", target.id);
+  if (updateError) throw updateError;
+
+  const { error: deleteError } = await supabase.from("important_topics").delete().in("id", mergedIds);
+  if (deleteError) throw deleteError;
+}
+
+/** Turns an alias back into a topic of its own, taking its mentions with it. */
+export async function splitAlias(userId: string, alias: TopicAlias, from: MergeableTopic) {
+  if (alias.alias_key === topicKey(from.topic)) {
+    throw new Error("A topic's own name can't be split off");
+  }
+
+  const { data: topic, error: insertError } = await supabase
+    .from("important_topics")
+    .insert({ user_id: userId, subject: from.subject, topic: alias.alias, frequency: alias.mentions })
+    .select("id")
+    .single();
+  if (insertError) throw insertError;
+
+  const { error: aliasError } = await supabase.from("topic_aliases").update({ topic_id: topic.id }).eq("id", alias.id);
+  if (aliasError) throw aliasError;
+
+  const { error: updateError } = await supabase
+    .from("important_topics")
+    .update({ frequency: Math.max(0, (from.frequency ?? 0) - alias.mentions) })
+    .eq("id", from.id);
+  if (updateError) throw updateError;
+}
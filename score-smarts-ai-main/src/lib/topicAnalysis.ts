@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  computeTopicFrequencies,
+  type FrequencyPaper,
+  type FrequencyQuestion,
+  type FrequencyTopic,
+} from "@/lib/topicFrequency";
+import { loadPredictionSettings } from "@/lib/predictionSettings";
+import { subjectKey } from "@/lib/common";
+import { fetchAllPages } from "@/lib/pagination";
+
+export interface TopicAnalysisSummary {
+  /** Subjects that were analyzed */
+  subjects: string[];
+  /** Paper subjects with no confirmed syllabus to map their questions onto */
+  unmatchedSubjects: string[];
+}
+
+export interface SubjectData {
+  name: string;
+  topics: FrequencyTopic[];
+  papers: FrequencyPaper[];
+}
+
+async function loadQuestions(userId: string): Promise<FrequencyQuestion[]> {
+  const rows = await fetchAllPages((from, to) =>
+    supabase
+      .from("paper_questions")
+      .select("id, past_paper_id, text, marks")
+      .eq("user_id", userId)
+      .order("id")
+      .range(from, to)
+  );
+  return rows.map((row) => ({ id: row.id, paperId: row.past_paper_id, text: row.text, marks: row.marks }));
+}
+
+/** Confirmed syllabus topics and past papers, grouped by subject name (case-insensitive). */
+async function loadSubjects(userId: string) {
+  const [{ data: syllabi, error: syllabusError }, { data: papers, error: papersError }] = await Promise.all([
+    supabase
+      .from("syllabus")
+      .select("title, course_name, syllabus_units(title, syllabus_topics(id, parent_id, title))")
+      .eq("user_id", userId)
+      .eq("tree_status", "confirmed"),
+    supabase.from("past_papers").select("id, subject, year").eq("user_id", userId),
+  ]);
+  if (syllabusError) throw syllabusError;
+  if (papersError) throw papersError;
+
+  const subjects = new Map<string, SubjectData>();
+  for (const syllabus of syllabi || []) {
+    const name = (syllabus.course_name ?? syllabus.title).trim();
+    const subject = subjects.get(subjectKey(name)) ?? { name, topics: [], papers: [] };
+
+    for (const unit of syllabus.syllabus_units) {
+      const topics = unit.syllabus_topics;
+      for (const topic of topics.filter((t) => t.parent_id === null)) {
+        subject.topics.push({
+          id: topic.id,
+          title: topic.title,
+          unitTitle: unit.title,
+          subtopics: topics.filter((sub) => sub.parent_id === topic.id).map((sub) => sub.title),
+        });
+      }
+    }
+    subjects.set(subjectKey(name), subject);
+  }
+
+  const unmatched = new Set<string>();
+  for (const paper of papers || []) {
+    const subject = subjects.get(subjectKey(paper.subject));
+    if (subject) {
+      subject.papers.push({ id: paper.id, year: paper.year });
+    } else {
+      unmatched.add(paper.subject);
+    }
+  }
+
+  return { subjects: [...subjects.values()], unmatchedSubjects: [...unmatched].sort() };
+}
+
+/** What an analysis run reads: each subject's syllabus topics and papers, every question and the tuned parameters. */
+export async function loadAnalysisInputs(userId: string) {
+  const [{ subjects, unmatchedSubjects }, questions, settings] = await Promise.all([
+    loadSubjects(userId),
+    loadQuestions(userId),
+    loadPredictionSettings(userId),
+  ]);
+  return { subjects, unmatchedSubjects, questions, settings };
+}
+
+/** Whether papers, questions, confirmed syllabi or settings changed since the last analysis. */
+export async function isAnalysisStale(): Promise<boolean> {
+  const { data, error } = await supabase.rpc("topic_analysis_is_stale");
+  if (error) throw error;
+  return data;
+}
+
+/** Paper subjects with no confirmed syllabus, without running the analysis. */
+export async function loadUnmatchedSubjects(userId: string): Promise<string[]> {
+  return (await loadSubjects(userId)).unmatchedSubjects;
+}
+
+/**
+ * Recomputes the user's topic frequencies from their segmented past papers
+ * and confirmed syllabi, scored with each subject's prediction settings, and
+ * replaces the previous results in one transaction: which questions map to
+ * which topic, and one `important_topics` row per (subject, topic). Analysis
+ * rows for topics that are no longer asked are removed unless pinned; topics
+ * added from AI answers or by hand are left alone.
+ */
+export async function analyzeTopics(userId: string): Promise<TopicAnalysisSummary> {
+  // Read before the inputs, so changes made while the analysis runs leave it stale
+  const { data: signature, error: signatureError } = await supabase.rpc("topic_analysis_signature");
+  if (signatureError) throw signatureError;
+
+  const { subjects, unmatchedSubjects, questions, settings } = await loadAnalysisInputs(userId);
+
+  const results = subjects
+    .filter((subject) => subject.topics.length > 0 && subject.papers.length > 0)
+    .map((subject) => ({
+      subject,
+      ...computeTopicFrequencies(subject.topics, subject.papers, questions, settings.get(subjectKey(subject.name))),
+    }));
+
+  const { error } = await supabase.rpc("replace_topic_analysis", {
+    data_signature: signature,
+    topic_matches: results.flatMap((result) =>
+      result.matches.map((match) => ({
+        question_id: match.questionId,
+        topic_id: match.topicId,
+        score: Math.round(match.score * 100) / 100,
+      }))
+    ),
+    analyzed_topics: results.flatMap((result) =>
+      result.topics.map((topic) => ({
+        subject: result.subject.name,
+        topic: topic.name,
+        syllabus_topic_id: topic.topicId,
+        frequency: topic.frequency,
+        probability: topic.probability,
+        year_counts: topic.yearCounts,
+        papers_asked: topic.papersAsked,
+        papers_total: topic.papersTotal,
+        score_factors: { ...topic.factors, parameters: { ...topic.factors.parameters } },
+      }))
+    ),
+  });
+  if (error) throw error;
+
+  return {
+    subjects: results.filter((result) => result.topics.length > 0).map((result) => result.subject.name),
+    unmatchedSubjects,
+  };
+}
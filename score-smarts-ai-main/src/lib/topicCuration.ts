@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { UNIQUE_VIOLATION } from "@/lib/common";
+
+export const TOPIC_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+export type TopicDifficulty = (typeof TOPIC_DIFFICULTIES)[number];
+
+export interface TopicDraft {
+  topic: string;
+  subject: string;
+  difficulty: TopicDifficulty;
+  /** Replaces the analyzed probability when set, 0-100 */
+  probabilityOverride: number | null;
+  pinned: boolean;
+  /** Where the pin came from, e.g. "Teacher said this is important" */
+  pinNote: string;
+}
+
+export interface CuratedTopic {
+  id: string;
+  subject: string;
+  topic: string;
+  /** Set when the past-paper analysis owns the topic's name and subject */
+  syllabus_topic_id: string | null;
+}
+
+/** Changes that can be applied to many topics at once. */
+export type BulkTopicChanges = Pick<TablesUpdate<"important_topics">, "difficulty" | "pinned" | "pin_note">;
+
+/** The probability shown for a topic: the user's override, else the analyzed one. */
+export const effectiveProbability = (topic: { probability: number | null; probability_override: number | null }) =>
+  topic.probability_override ?? topic.probability;
+
+const draftToRow = (draft: TopicDraft) => ({
+  difficulty: draft.difficulty,
+  probability_override: draft.probabilityOverride,
+  pinned: draft.pinned,
+  pin_note: draft.pinned ? draft.pinNote.trim() || null : null,
+});
+
+const duplicateError = (draft: TopicDraft) =>
+  new Error(`"${draft.topic.trim()}" is already a topic in ${draft.subject.trim()}`);
+
+export async function addTopic(userId: string, draft: TopicDraft) {
+  const { error } = await supabase.from("important_topics").insert({
+    user_id: userId,
+    topic: draft.topic.trim(),
+    subject: draft.subject.trim(),
+    // Counts AI mentions, and a hand-added topic has none yet
+    frequency: 0,
+    ...draftToRow(draft),
+  });
+  if (error) throw error.code === UNIQUE_VIOLATION ? duplicateError(draft) : error;
+}
+
+/**
+ * Saves an edited topic. Topics from the past-paper analysis keep their
+ * syllabus name and subject, since the next analysis would recreate them.
+ */
+export async function updateTopic(topic: CuratedTopic, draft: TopicDraft) {
+  const fromAnalysis = topic.syllabus_topic_id !== null;
+  const subject = fromAnalysis ? topic.subject : draft.subject.trim();
+
+  const { error } = await supabase
+    .from("important_topics")
+    .update({
+      ...draftToRow(draft),
+      ...(fromAnalysis ? {} : { topic: draft.topic.trim(), subject }),
+    })
+    .eq("id", topic.id);
+  if (error) throw error.code === UNIQUE_VIOLATION ? duplicateError(draft) : error;
+
+  // Aliases are looked up per subject, so they move with the topic
+  if (subject !== topic.subject) {
+    const { error: aliasError } = await supabase.from("topic_aliases").update({ subject }).eq("topic_id", topic.id);
+    if (aliasError) throw aliasError;
+  }
+}
+
+export async function updateTopics(ids: string[], changes: BulkTopicChanges) {
+  const { error } = await supabase.from("important_topics").update(changes).in("id", ids);
+  if (error) throw error;
+}
+
+export async function deleteTopics(ids: string[]) {
+  const { error } = await supabase.from("important_topics").delete().in("id", ids);
+  if (error) throw error;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { computeTopicFrequencies, type FrequencyTopic } from "@/lib/topicFrequency";
+
+const topic = (id: string, title: string, unitTitle = "Unit 1"): FrequencyTopic => ({
+  id,
+  title,
+  unitTitle,
+  subtopics: [],
+});
+
+const papers = [
+  { id: "p2020", year: "2020" },
+  { id: "p2021", year: "2021" },
+  { id: "p2021-supp", year: "2021" },
+  { id: "p2022", year: "2022" },
+];
+
+describe("computeTopicFrequencies", () => {
+  it("counts questions, years and papers per topic and leaves out topics never asked", () => {
+    const { topics, matches } = computeTopicFrequencies(
+      [topic("trees", "Binary Trees"), topic("graphs", "Graph Colouring"), topic("heaps", "Heap Sort")],
+      papers,
+      [
+        { id: "q1", paperId: "p2020", text: "Explain binary trees with an example.", marks: 5 },
+        { id: "q2", paperId: "p2021", text: "Write the inorder traversal of binary trees.", marks: 10 },
+        { id: "q3", paperId: "p2021", text: "Insert 5, 3, 8 into a binary tree.", marks: null },
+        { id: "q4", paperId: "p2021-supp", text: "Explain graph colouring.", marks: 5 },
+        { id: "q5", paperId: "other-subject", text: "Explain heap sort.", marks: 5 },
+      ]
+    );
+
+    expect(topics.map(({ topicId, frequency, yearCounts, papersAsked, papersTotal }) => ({
+      topicId,
+      frequency,
+      yearCounts,
+      papersAsked,
+      papersTotal,
+    }))).toEqual([
+      { topicId: "trees", frequency: 3, yearCounts: { 2020: 1, 2021: 2 }, papersAsked: 2, papersTotal: 3 },
+      { topicId: "graphs", frequency: 1, yearCounts: { 2021: 1 }, papersAsked: 1, papersTotal: 3 },
+    ]);
+    expect(matches.map((match) => match.questionId)).toEqual(["q1", "q2", "q3", "q4"]);
+  });
+
+  it("only counts papers that have segmented questions", () => {
+    const { topics } = computeTopicFrequencies([topic("trees", "Binary Trees")], papers, [
+      { id: "q1", paperId: "p2022", text: "Explain binary trees.", marks: null },
+    ]);
+
+    expect(topics[0]).toMatchObject({ papersAsked: 1, papersTotal: 1 });
+  });
+
+  it("scores every asked topic with the prediction model", () => {
+    const { topics } = computeTopicFrequencies([topic("trees", "Binary Trees"), topic("graphs", "Graph Colouring")], papers, [
+      { id: "q1", paperId: "p2020", text: "Explain binary trees.", marks: 10 },
+      { id: "q2", paperId: "p2022", text: "Explain binary trees.", marks: 10 },
+      { id: "q3", paperId: "p2022", text: "Explain graph colouring.", marks: 5 },
+    ]);
+
+    expect(topics.map((entry) => entry.factors.marks)).toEqual([1, 0.5]);
+    expect(topics[0].probability).toBeGreaterThan(topics[1].probability);
+  });
+
+  it("adds the unit to titles that clash", () => {
+    const { topics } = computeTopicFrequencies(
+      [topic("ds-trees", "Trees", "Data Structures"), topic("graph-trees", "trees", "Graph Theory"), topic("sorting", "Sorting")],
+      papers,
+      [
+        { id: "q1", paperId: "p2020", text: "Explain trees.", marks: null },
+        { id: "q2", paperId: "p2021", text: "Compare sorting methods.", marks: null },
+      ]
+    );
+
+    expect(topics.map((entry) => entry.name)).toEqual(["Trees (Data Structures)", "trees (Graph Theory)", "Sorting"]);
+  });
+
+  it("numbers titles that still clash with their unit added", () => {
+    const { topics } = computeTopicFrequencies(
+      [topic("trees", "Trees", "Graph Theory"), topic("trees-again", "Trees", "Graph Theory")],
+      papers,
+      [{ id: "q1", paperId: "p2020", text: "Explain trees.", marks: null }]
+    );
+
+    expect(topics.map((entry) => entry.name)).toEqual(["Trees (Graph Theory)", "Trees (Graph Theory) (2)"]);
+  });
+});
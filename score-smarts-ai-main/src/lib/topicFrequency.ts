@@ -0,0 +1,142 @@
+import { indexTopics, matchQuestion, type MatchableTopic, type TopicMatch } from "@/lib/topicMatching";
+import {
+  DEFAULT_PREDICTION_PARAMETERS,
+  predictTopics,
+  type PredictionParameters,
+  type ScoreFactors,
+} from "@/lib/predictionModel";
+
+export interface FrequencyTopic extends MatchableTopic {
+  unitTitle: string;
+}
+
+export interface FrequencyPaper {
+  id: string;
+  year: string;
+}
+
+export interface FrequencyQuestion {
+  id: string;
+  paperId: string;
+  text: string;
+  marks: number | null;
+}
+
+export interface QuestionTopicMatch extends TopicMatch {
+  questionId: string;
+}
+
+export interface TopicFrequency {
+  topicId: string;
+  /** Topic title, suffixed with its unit when two units share a title */
+  name: string;
+  /** Questions asked on the topic across all papers */
+  frequency: number;
+  yearCounts: Record<string, number>;
+  papersAsked: number;
+  papersTotal: number;
+  /** Chance, in percent, that the next paper asks the topic */
+  probability: number;
+  factors: ScoreFactors;
+}
+
+export interface SubjectFrequencies {
+  matches: QuestionTopicMatch[];
+  topics: TopicFrequency[];
+}
+
+/**
+ * Names are the key of the stored rows, so they must differ within a subject:
+ * a shared title gets its unit added, and if that still clashes (the same unit
+ * title in two syllabi of a subject) a running number.
+ */
+function uniqueNames(topics: FrequencyTopic[]): Map<string, string> {
+  const counts = new Map<string, number>();
+  for (const topic of topics) {
+    const key = topic.title.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const seen = new Map<string, number>();
+  return new Map(
+    topics.map((topic) => {
+      const name = counts.get(topic.title.toLowerCase())! > 1 ? `${topic.title} (${topic.unitTitle})` : topic.title;
+      const occurrence = (seen.get(name) ?? 0) + 1;
+      seen.set(name, occurrence);
+      return [topic.id, occurrence > 1 ? `${name} (${occurrence})` : name];
+    })
+  );
+}
+
+/**
+ * Maps one subject's questions onto its syllabus topics and counts, per
+ * topic, how often and in which years it was asked, then scores it with the
+ * prediction model. Only papers that have segmented questions count towards
+ * the totals, and only topics asked at least once are returned.
+ */
+export function computeTopicFrequencies(
+  topics: FrequencyTopic[],
+  papers: FrequencyPaper[],
+  questions: FrequencyQuestion[],
+  parameters: PredictionParameters = DEFAULT_PREDICTION_PARAMETERS
+): SubjectFrequencies {
+  const yearByPaper = new Map(papers.map((paper) => [paper.id, paper.year]));
+  const subjectQuestions = questions.filter((question) => yearByPaper.has(question.paperId));
+  const analyzedPapers = new Set(subjectQuestions.map((question) => question.paperId));
+  const papersTotal = analyzedPapers.size;
+  const papersByYear: Record<string, number> = {};
+  for (const paperId of analyzedPapers) {
+    const year = yearByPaper.get(paperId)!;
+    papersByYear[year] = (papersByYear[year] ?? 0) + 1;
+  }
+
+  const index = indexTopics(topics);
+  const matches = subjectQuestions.flatMap((question) =>
+    matchQuestion(question.text, index).map((match) => ({ ...match, questionId: question.id }))
+  );
+
+  const questionsById = new Map(subjectQuestions.map((question) => [question.id, question]));
+  const names = uniqueNames(topics);
+
+  const asked = topics.flatMap((topic) => {
+    const topicMatches = matches.filter((match) => match.topicId === topic.id);
+    if (topicMatches.length === 0) return [];
+
+    const yearCounts: Record<string, number> = {};
+    const papersAsked = new Set<string>();
+    const marks: number[] = [];
+    for (const match of topicMatches) {
+      const question = questionsById.get(match.questionId)!;
+      const year = yearByPaper.get(question.paperId)!;
+      yearCounts[year] = (yearCounts[year] ?? 0) + 1;
+      papersAsked.add(question.paperId);
+      if (question.marks !== null) marks.push(Number(question.marks));
+    }
+
+    const papersAskedByYear: Record<string, number> = {};
+    for (const paperId of papersAsked) {
+      const year = yearByPaper.get(paperId)!;
+      papersAskedByYear[year] = (papersAskedByYear[year] ?? 0) + 1;
+    }
+
+    return [
+      { topic, frequency: topicMatches.length, yearCounts, papersAsked: papersAsked.size, papersAskedByYear, marks },
+    ];
+  });
+
+  const predictions = predictTopics(asked, papersByYear, parameters);
+
+  return {
+    matches,
+    topics: asked.map((entry, index) => ({
+      topicId: entry.topic.id,
+      name: names.get(entry.topic.id)!,
+      frequency: entry.frequency,
+      yearCounts: entry.yearCounts,
+      papersAsked: entry.papersAsked,
+      papersTotal,
+      probability: predictions[index].probability,
+      factors: predictions[index].factors,
+    })),
+  };
+}
@@ -0,0 +1,79 @@
+// Keyword matching between past-paper questions and syllabus topics. Both
+// sides are reduced to stemmed content words; a question belongs to a topic
+// when it contains most of the topic's keywords.
+
+export interface MatchableTopic {
+  id: string;
+  title: string;
+  /** Subtopic titles; a question matching any of them counts for the topic */
+  subtopics: string[];
+}
+
+export interface TopicMatch {
+  topicId: string;
+  /** Share of the best-matching title's keywords found in the question, 0-1 */
+  score: number;
+}
+
+// Question verbs and syllabus filler that say nothing about the subject matter
+const STOPWORDS = new Set(
+  `a about above after all also an and any are as at be been between both brief briefly but by can
+  compare concept concepts consider define definition derive describe detail details determine diagram
+  differentiate discuss distinguish do does each enumerate example examples explain following for from
+  fundamental fundamentals give how if illustrate in introduction into is it its justify list mark marks
+  mention neat note notes of on or other out overview prove short show sketch state suitable that the
+  their them then there these this to types under use using various what when where which why with
+  write your`.split(/\s+/)
+);
+
+const MATCH_THRESHOLD = 0.6;
+// Questions usually test one or two topics; more matches are keyword noise
+const MAX_TOPICS_PER_QUESTION = 2;
+
+/** Crude suffix stripping, enough to equate "trees"/"tree" and "sorting"/"sort". */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith("es") && /(?:ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  return word;
+}
+
+/** Lower-cased, stemmed content words of a piece of text. */
+export function keywords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .split(/[^a-z0-9+#]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  return new Set(words.map(stem));
+}
+
+function coverage(titleKeywords: Set<string>, questionKeywords: Set<string>): number {
+  if (titleKeywords.size === 0) return 0;
+  let found = 0;
+  for (const word of titleKeywords) if (questionKeywords.has(word)) found++;
+  return found / titleKeywords.size;
+}
+
+/** Prepares topics once so every question is matched against the same keyword sets. */
+export function indexTopics(topics: MatchableTopic[]) {
+  return topics.map((topic) => ({
+    id: topic.id,
+    titles: [topic.title, ...topic.subtopics].map(keywords).filter((set) => set.size > 0),
+  }));
+}
+
+export function matchQuestion(text: string, index: ReturnType<typeof indexTopics>): TopicMatch[] {
+  const questionKeywords = keywords(text);
+
+  return index
+    .map((topic) => ({
+      topicId: topic.id,
+      score: Math.max(0, ...topic.titles.map((title) => coverage(title, questionKeywords))),
+    }))
+    .filter((match) => match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_TOPICS_PER_QUESTION);
+}
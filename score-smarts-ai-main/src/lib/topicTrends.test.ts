@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildHeatmap, buildTrend, questionsFor, type TopicQuestion } from "@/lib/topicTrends";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const question = (topicId: string, questionId: string, year: string, marks: number | null, label = "Q1"): TopicQuestion => ({
+  topicId,
+  questionId,
+  paperId: `paper-${year}`,
+  year,
+  label,
+  text: `Question ${questionId}`,
+  marks,
+});
+
+const years = ["2019", "2020", "2021"];
+
+const questions = [
+  question("trees", "q1", "2019", 10, "Q2"),
+  question("trees", "q2", "2021", 5, "Q10"),
+  question("heaps", "q2", "2021", 5, "Q10"),
+  question("heaps", "q3", "2021", null, "Q3"),
+  question("trees", "q4", "2018", 4),
+];
+
+describe("buildTrend", () => {
+  it("buckets appearances and marks by year, keeping years with nothing asked", () => {
+    expect(buildTrend(questions, new Set(["trees"]), years)).toEqual([
+      { year: "2019", appearances: 1, marks: 10 },
+      { year: "2020", appearances: 0, marks: 0 },
+      { year: "2021", appearances: 1, marks: 5 },
+    ]);
+  });
+
+  it("counts a question matched to several of the topics once", () => {
+    expect(buildTrend(questions, new Set(["trees", "heaps"]), years)[2]).toEqual({ year: "2021", appearances: 2, marks: 5 });
+  });
+});
+
+describe("buildHeatmap", () => {
+  it("gives every topic one cell per year", () => {
+    const rows = buildHeatmap(
+      [
+        { id: "trees", name: "Trees" },
+        { id: "graphs", name: "Graphs" },
+      ],
+      questions,
+      years
+    );
+
+    expect(rows.map((row) => [row.name, row.cells.map((cell) => cell.appearances)])).toEqual([
+      ["Trees", [1, 0, 1]],
+      ["Graphs", [0, 0, 0]],
+    ]);
+  });
+});
+
+describe("questionsFor", () => {
+  it("lists each question once, by year and then by question number", () => {
+    expect(questionsFor(questions, new Set(["trees", "heaps"]), null).map((q) => q.questionId)).toEqual([
+      "q4",
+      "q1",
+      "q3",
+      "q2",
+    ]);
+  });
+
+  it("narrows to one year", () => {
+    expect(questionsFor(questions, new Set(["trees"]), "2021").map((q) => q.questionId)).toEqual(["q2"]);
+  });
+});
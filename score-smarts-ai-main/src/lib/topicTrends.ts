@@ -0,0 +1,116 @@
+import { supabase } from "@/integrations/supabase/client";
+import { formatQuestionLabel } from "@/lib/questions";
+import { byYear, subjectKey } from "@/lib/common";
+import { fetchAllPages } from "@/lib/pagination";
+
+// Year-by-year evidence behind the analyzed topics, read from the question ↔
+// topic matches the analysis stored in question_topics.
+
+export interface TopicQuestion {
+  /** The syllabus topic the question was matched to */
+  topicId: string;
+  questionId: string;
+  paperId: string;
+  year: string;
+  label: string;
+  text: string;
+  marks: number | null;
+}
+
+export interface TrendPoint {
+  year: string;
+  /** Distinct questions asked on the topics that year */
+  appearances: number;
+  /** Marks of those questions, where the paper printed them */
+  marks: number;
+}
+
+export interface HeatmapRow {
+  topicId: string;
+  name: string;
+  /** One cell per year, in the order of the years passed in */
+  cells: TrendPoint[];
+}
+
+/**
+ * Every matched question of one subject, plus the exam years of all its
+ * papers so years in which nothing was asked still show up.
+ */
+export async function loadTopicQuestions(userId: string, subject: string) {
+  const rows = await fetchAllPages((from, to) =>
+    supabase
+      .from("question_topics")
+      .select(
+        "topic_id, paper_questions(id, past_paper_id, question_number, sub_part, text, marks, past_papers(year, subject))"
+      )
+      .eq("user_id", userId)
+      .order("id")
+      .range(from, to)
+  );
+
+  const questions: TopicQuestion[] = [];
+  for (const row of rows) {
+    const question = row.paper_questions;
+    if (!question?.past_papers || subjectKey(question.past_papers.subject) !== subjectKey(subject)) continue;
+    questions.push({
+      topicId: row.topic_id,
+      questionId: question.id,
+      paperId: question.past_paper_id,
+      year: question.past_papers.year,
+      label: formatQuestionLabel(question),
+      text: question.text,
+      marks: question.marks,
+    });
+  }
+
+  const { data: papers, error: papersError } = await supabase
+    .from("past_papers")
+    .select("year, subject")
+    .eq("user_id", userId);
+  if (papersError) throw papersError;
+
+  const years = [
+    ...new Set((papers || []).filter((paper) => subjectKey(paper.subject) === subjectKey(subject)).map((p) => p.year)),
+  ].sort(byYear);
+
+  return { questions, years };
+}
+
+/** Appearances and marks per year for a set of topics, counting a question matched to several of them once. */
+export function buildTrend(questions: TopicQuestion[], topicIds: Set<string>, years: string[]): TrendPoint[] {
+  const seen = new Set<string>();
+  const points = new Map(years.map((year) => [year, { year, appearances: 0, marks: 0 }]));
+
+  for (const question of questions) {
+    if (!topicIds.has(question.topicId) || seen.has(question.questionId)) continue;
+    seen.add(question.questionId);
+
+    const point = points.get(question.year);
+    if (!point) continue;
+    point.appearances += 1;
+    point.marks += question.marks ?? 0;
+  }
+
+  return [...points.values()];
+}
+
+export function buildHeatmap(
+  topics: { id: string; name: string }[],
+  questions: TopicQuestion[],
+  years: string[]
+): HeatmapRow[] {
+  return topics.map((topic) => ({
+    topicId: topic.id,
+    name: topic.name,
+    cells: buildTrend(questions, new Set([topic.id]), years),
+  }));
+}
+
+/** The questions behind one chart cell: the given topics, optionally in one year. */
+export function questionsFor(questions: TopicQuestion[], topicIds: Set<string>, year: string | null): TopicQuestion[] {
+  const seen = new Set<string>();
+  return questions
+    .filter((question) => topicIds.has(question.topicId) && (year === null || question.year === year))
+    .filter((question) => !seen.has(question.questionId) && seen.add(question.questionId))
+    .sort((a, b) => byYear(a.year, b.year) || a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { classifyEntry, isSyllabusOnly, readZipArchive } from "@/lib/zipImport";
+
+const archive = (paths: string[]) => {
+  const zipped = zipSync(Object.fromEntries(paths.map((path) => [path, strToU8(`contents of ${path}`)])));
+  return new File([zipped], "papers.zip", { type: "application/zip" });
+};
+
+describe("classifyEntry", () => {
+  it("treats syllabus-like file and folder names as syllabus", () => {
+    expect(classifyEntry("Syllabus/CS201.pdf")).toBe("syllabus");
+    expect(classifyEntry("DSA course_outline.pdf")).toBe("syllabus");
+    expect(classifyEntry("Scheme of Studies 2023.pdf")).toBe("syllabus");
+  });
+
+  it("treats everything else as a question paper, except Word documents", () => {
+    expect(classifyEntry("DSA/May 2019.pdf")).toBe("question-paper");
+    expect(classifyEntry("DSA/May 2019.docx")).toBe("syllabus");
+  });
+});
+
+describe("isSyllabusOnly", () => {
+  it("only holds for Word documents", () => {
+    expect(isSyllabusOnly("notes.DOCX")).toBe(true);
+    expect(isSyllabusOnly("scan.jpeg")).toBe(false);
+  });
+});
+
+describe("readZipArchive", () => {
+  it("keeps supported files, skips hidden and macOS metadata entries, and sorts by path", async () => {
+    const entries = await readZipArchive(
+      archive([
+        "DSA/Dec 2021.pdf",
+        "DSA/May 2019.png",
+        "DSA/readme.txt",
+        "DSA/.DS_Store",
+        ".hidden/May 2020.pdf",
+        "__MACOSX/DSA/._Dec 2021.pdf",
+        "Syllabus/DSA.docx",
+      ])
+    );
+
+    expect(entries.map(({ path, category, file }) => [path, category, file.type])).toEqual([
+      ["DSA/Dec 2021.pdf", "question-paper", "application/pdf"],
+      ["DSA/May 2019.png", "question-paper", "image/png"],
+      ["Syllabus/DSA.docx", "syllabus", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    ]);
+  });
+
+  it("guesses paper details from the folder and file name", async () => {
+    const [entry] = await readZipArchive(archive(["Data Structures/Dec 2021.pdf"]), ["Data Structures"]);
+
+    expect(entry.file.name).toBe("Dec 2021.pdf");
+    expect(entry.metadata).toMatchObject({ subject: "Data Structures", year: "2021", examSession: "Dec" });
+    expect(entry.include).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { unzip, type UnzipFileInfo } from "fflate";
+import { guessPaperMetadata, type PaperMetadata } from "@/lib/paperMetadata";
+
+export type ImportCategory = "syllabus" | "question-paper";
+
+export interface ZipImportEntry {
+  id: string;
+  /** Path inside the archive, for display */
+  path: string;
+  file: File;
+  category: ImportCategory;
+  metadata: PaperMetadata;
+  include: boolean;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+// Word documents are only accepted as syllabus
+const SYLLABUS_ONLY_EXTENSIONS = ["doc", "docx"];
+const SYLLABUS_PATTERN = /syllabus|curriculum|course[\s_-]*(?:outline|structure|content)|scheme[\s_-]*of[\s_-]*(?:study|studies)/i;
+
+// 0 = stored, 8 = deflate; anything else cannot be decompressed in the browser
+const SUPPORTED_COMPRESSION = [0, 8];
+
+const extensionOf = (path: string) => path.split(".").pop()?.toLowerCase() ?? "";
+
+const isImportable = (info: UnzipFileInfo) => {
+  const segments = info.name.split("/");
+  const name = segments[segments.length - 1];
+  return (
+    name !== "" &&
+    !segments.some((segment) => segment.startsWith(".") || segment === "__MACOSX") &&
+    extensionOf(name) in MIME_TYPES &&
+    SUPPORTED_COMPRESSION.includes(info.compression)
+  );
+};
+
+export const isSyllabusOnly = (path: string) => SYLLABUS_ONLY_EXTENSIONS.includes(extensionOf(path));
+
+/** Folder names count too: "Syllabus/CS201.pdf" is a syllabus, "DSA/May 2019.pdf" a DSA paper. */
+export function classifyEntry(path: string): ImportCategory {
+  return isSyllabusOnly(path) || SYLLABUS_PATTERN.test(path) ? "syllabus" : "question-paper";
+}
+
+function unzipArchive(data: Uint8Array): Promise<Record<string, Uint8Array>> {
+  return new Promise((resolve, reject) => {
+    unzip(data, { filter: isImportable }, (error, files) => (error ? reject(error) : resolve(files)));
+  });
+}
+
+/**
+ * Unpacks a ZIP in the browser and turns every PDF, image and Word document
+ * in it into a reviewable entry with its category and paper details guessed
+ * from the folder and file names. Anything else in the archive is ignored.
+ */
+export async function readZipArchive(archive: File, knownSubjects: string[] = []): Promise<ZipImportEntry[]> {
+  const files = await unzipArchive(new Uint8Array(await archive.arrayBuffer()));
+
+  return Object.entries(files)
+    .map(([path, data]) => {
+      const name = path.split("/").pop()!;
+      return {
+        id: crypto.randomUUID(),
+        path,
+        file: new File([data], name, { type: MIME_TYPES[extensionOf(name)] }),
+        category: classifyEntry(path),
+        metadata: guessPaperMetadata(path.replace(/\//g, " "), knownSubjects),
+        include: true,
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+}
@@ -9,6 +9,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { recordTopicMentions } from "@/lib/topicAliases";
 
 interface Message {
   id: string;
@@ -28,7 +29,7 @@ const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ask-ai`;
 
 export default function AskAI() {
   const { toast } = useToast();
-  const { user, loading } = useAuth();
+  const { user, session, loading } = useAuth();
   const navigate = useNavigate();
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -56,12 +57,9 @@ export default function AskAI() {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
       },
-      body: JSON.stringify({ 
-        question, 
-        userId: user?.id 
-      }),
+      body: JSON.stringify({ question }),
     });
 
     if (resp.status === 429) {
@@ -155,16 +153,14 @@ export default function AskAI() {
             const parsed = JSON.parse(jsonMatch[1]);
             summary = parsed.summary || "";
             
-            // Save important topics
+            // Count the topics the AI mentioned under their canonical names. They carry
+            // no probability until the past-paper analysis finds evidence for them.
             if (parsed.important_topics && Array.isArray(parsed.important_topics)) {
-              for (const topic of parsed.important_topics) {
-                await supabase.from("important_topics").insert({
-                  user_id: user.id,
-                  subject: "General",
-                  topic: topic,
-                  probability: Math.floor(Math.random() * 30) + 70,
-                });
-              }
+              await recordTopicMentions(
+                user.id,
+                "General",
+                parsed.important_topics.filter((topic: unknown): topic is string => typeof topic === "string")
+              ).catch((error) => console.error("Error recording topics:", error));
             }
           } catch (e) {
             console.log("Could not parse JSON from response");
@@ -0,0 +1,403 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileText, FolderOpen, Eye, Download, Pencil, ArrowLeftRight, Trash2, Upload, Loader2, Search } from "lucide-react";
+import { motion } from "framer-motion";
+import { EditDocumentDialog } from "@/components/files/EditDocumentDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSubjects } from "@/hooks/useSubjects";
+import { supabase } from "@/integrations/supabase/client";
+import { deleteDocument, moveDocument, originalFileName, type FileEntry } from "@/lib/documentFiles";
+import { getSignedFileUrl } from "@/lib/fileAccess";
+import { formatPaperSummary, paperMetadataFromRow } from "@/lib/paperMetadata";
+
+type CategoryFilter = "all" | "syllabus" | "past_papers";
+
+interface PendingAction {
+  kind: "delete" | "move";
+  file: FileEntry;
+}
+
+const categoryLabels = {
+  syllabus: "Syllabus",
+  past_papers: "Question Paper",
+};
+
+// Shorter queries match too much text to be useful
+const MIN_CONTENT_SEARCH_LENGTH = 3;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatDate = (dateString: string) => {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(new Date(dateString));
+};
+
+export default function Files() {
+  const { toast } = useToast();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { subjects, refresh: refreshSubjects } = useSubjects();
+  const [files, setFiles] = useState<FileEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<CategoryFilter>("all");
+  const [editingFile, setEditingFile] = useState<FileEntry | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  // Ids of documents whose extracted text contains the search query
+  const [contentMatches, setContentMatches] = useState<Set<string>>(new Set());
+
+  const fetchFiles = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [{ data: syllabusRows, error: syllabusError }, { data: paperRows, error: papersError }] =
+        await Promise.all([
+          supabase.from("syllabus").select("*").eq("user_id", user.id),
+          supabase.from("past_papers").select("*").eq("user_id", user.id),
+        ]);
+
+      if (syllabusError) throw syllabusError;
+      if (papersError) throw papersError;
+
+      const entries: FileEntry[] = [
+        ...(syllabusRows || []).map((row) => ({
+          id: row.id,
+          table: "syllabus" as const,
+          title: row.title,
+          storagePath: row.storage_path,
+          fileName: originalFileName(row.storage_path),
+          uploadedAt: row.uploaded_at,
+          extractionStatus: row.extraction_status,
+          courseName: row.course_name,
+        })),
+        ...(paperRows || []).map((row) => {
+          const paper = paperMetadataFromRow(row);
+          return {
+            id: row.id,
+            table: "past_papers" as const,
+            title: formatPaperSummary(paper),
+            storagePath: row.storage_path,
+            fileName: originalFileName(row.storage_path),
+            uploadedAt: row.uploaded_at,
+            extractionStatus: row.extraction_status,
+            paper,
+          };
+        }),
+      ];
+
+      setFiles(entries.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt)));
+    } catch (error) {
+      console.error("Error fetching files:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading && user) {
+      fetchFiles();
+    } else if (!authLoading && !user) {
+      setLoading(false);
+    }
+  }, [user, authLoading, fetchFiles]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!user || query.length < MIN_CONTENT_SEARCH_LENGTH) {
+      setContentMatches(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from("document_pages")
+        .select("syllabus_id, past_paper_id")
+        .eq("user_id", user.id)
+        .ilike("content", `%${query.replace(/[\\%_]/g, "\\$&")}%`);
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error searching files:", error);
+        return;
+      }
+      setContentMatches(new Set((data || []).map((page) => page.syllabus_id ?? page.past_paper_id)));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, searchQuery]);
+
+  const handleEditOpenChange = useCallback((open: boolean) => {
+    if (!open) setEditingFile(null);
+  }, []);
+
+  const handleSaved = useCallback(() => {
+    fetchFiles();
+    refreshSubjects();
+  }, [fetchFiles, refreshSubjects]);
+
+  const handlePreview = async (file: FileEntry) => {
+    // Open the tab synchronously so popup blockers allow it
+    const preview = window.open("", "_blank");
+    try {
+      const url = await getSignedFileUrl(file.table, file.storagePath);
+      if (preview) preview.location.href = url;
+    } catch (error) {
+      preview?.close();
+      console.error("Preview error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownload = async (file: FileEntry) => {
+    try {
+      window.location.assign(await getSignedFileUrl(file.table, file.storagePath, { download: file.fileName }));
+    } catch (error) {
+      console.error("Download error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction || !user) return;
+    const { kind, file } = pendingAction;
+    setPendingAction(null);
+    setBusyId(file.id);
+
+    try {
+      if (kind === "delete") {
+        await deleteDocument(file);
+        toast({ title: "File deleted" });
+      } else {
+        await moveDocument(file, user.id);
+        toast({
+          title: "File moved",
+          description: `It is now filed under ${file.table === "syllabus" ? "question papers" : "syllabus"} and will be re-processed.`,
+        });
+      }
+      await fetchFiles();
+      refreshSubjects();
+    } catch (error) {
+      console.error("File action error:", error);
+      toast({
+        title: "Error",
+        description:
+          kind === "delete" ? "Failed to delete file" : error instanceof Error ? error.message : "Failed to move file",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const matchesSearch = (file: FileEntry) => {
+    const query = searchQuery.trim().toLowerCase();
+    return (
+      !query ||
+      [file.title, file.fileName, file.courseName ?? ""].some((text) => text.toLowerCase().includes(query)) ||
+      contentMatches.has(file.id)
+    );
+  };
+
+  const filteredFiles = files.filter((file) => (filter === "all" || file.table === filter) && matchesSearch(file));
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-5xl mx-auto"
+        >
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="font-heading text-3xl sm:text-4xl font-bold mb-2">
+                My Files
+              </h1>
+              <p className="text-muted-foreground">
+                Every syllabus and question paper you have uploaded
+              </p>
+            </div>
+            <Button variant="hero" className="gap-2" onClick={() => navigate("/upload")}>
+              <Upload className="w-4 h-4" />
+              Upload Files
+            </Button>
+          </div>
+
+          <div className="relative mb-4">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search titles and document text..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as CategoryFilter)} className="mb-6">
+            <TabsList>
+              <TabsTrigger value="all">All ({files.length})</TabsTrigger>
+              <TabsTrigger value="syllabus">
+                Syllabus ({files.filter((f) => f.table === "syllabus").length})
+              </TabsTrigger>
+              <TabsTrigger value="past_papers">
+                Question Papers ({files.filter((f) => f.table === "past_papers").length})
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {filteredFiles.length === 0 ? (
+            <Card variant="gradient" className="text-center py-16">
+              <CardContent>
+                <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                  <FolderOpen className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <h3 className="font-heading font-semibold text-xl mb-2">
+                  {searchQuery.trim() && files.length > 0 ? "No matching files" : "No files yet"}
+                </h3>
+                <p className="text-muted-foreground mb-6">
+                  {!user
+                    ? "Sign in to manage your files."
+                    : searchQuery.trim() && files.length > 0
+                      ? "Try a different search term."
+                      : "Upload your syllabus and past papers to get started."}
+                </p>
+                <Button variant="hero" onClick={() => navigate(user ? "/upload" : "/auth")}>
+                  {user ? "Upload Files" : "Sign In"}
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {filteredFiles.map((file) => (
+                <Card key={`${file.table}-${file.id}`} variant="default">
+                  <CardContent className="p-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                          <FileText className="w-5 h-5 text-primary" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{file.courseName ?? file.title}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {file.fileName} · {formatDate(file.uploadedAt)}
+                          </p>
+                          <div className="flex flex-wrap gap-2 mt-1">
+                            <Badge variant="secondary">{categoryLabels[file.table]}</Badge>
+                            {file.extractionStatus === "failed" && (
+                              <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                                Processing failed
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {busyId === file.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin text-primary mx-3" />
+                        ) : (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => handlePreview(file)}>
+                              <Eye className="w-4 h-4" />
+                              <span className="hidden lg:inline">Preview</span>
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDownload(file)}>
+                              <Download className="w-4 h-4" />
+                              <span className="hidden lg:inline">Download</span>
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditingFile(file)}>
+                              <Pencil className="w-4 h-4" />
+                              <span className="hidden lg:inline">Edit</span>
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setPendingAction({ kind: "move", file })}>
+                              <ArrowLeftRight className="w-4 h-4" />
+                              <span className="hidden lg:inline">Move</span>
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setPendingAction({ kind: "delete", file })}>
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      </div>
+
+      <EditDocumentDialog
+        file={editingFile}
+        subjects={subjects}
+        onOpenChange={handleEditOpenChange}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.kind === "delete" ? "Delete this file?" : "Move this file?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === "delete"
+                ? "The file and everything extracted from it will be permanently removed."
+                : `It will be filed as ${pendingAction?.file.table === "syllabus" ? "a question paper" : "a syllabus"} and processed again. Anything extracted from it so far is discarded.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmAction}>
+              {pendingAction?.kind === "delete" ? "Delete" : "Move"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
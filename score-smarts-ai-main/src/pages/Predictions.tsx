@@ -1,22 +1,102 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Target, TrendingUp, Clock, AlertTriangle, Zap, ChevronRight, Loader2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Target,
+  TrendingUp,
+  Clock,
+  AlertTriangle,
+  Zap,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  SlidersHorizontal,
+  Merge,
+  Plus,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+  X,
+  LineChart,
+  Scale,
+  ListTree,
+  HelpCircle,
+  FlaskConical,
+} from "lucide-react";
 import { motion } from "framer-motion";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { analyzeTopics, isAnalysisStale, loadUnmatchedSubjects } from "@/lib/topicAnalysis";
+import type { ScoreFactors } from "@/lib/predictionModel";
+import { PredictionSettingsDialog } from "@/components/predictions/PredictionSettingsDialog";
+import { TopicMergeDialog } from "@/components/predictions/TopicMergeDialog";
+import { TopicEditForm } from "@/components/predictions/TopicEditForm";
+import { TopicTrendsPanel, type TrendTopic } from "@/components/predictions/TopicTrendsPanel";
+import { MarksWeightagePanel } from "@/components/predictions/MarksWeightagePanel";
+import { SyllabusCoveragePanel } from "@/components/predictions/SyllabusCoveragePanel";
+import { TopicEvidenceSheet } from "@/components/predictions/TopicEvidenceSheet";
+import { BacktestPanel } from "@/components/predictions/BacktestPanel";
+import { blindSpots, loadCoverage, type SubjectCoverage } from "@/lib/syllabusCoverage";
+import {
+  TOPIC_DIFFICULTIES,
+  addTopic,
+  deleteTopics,
+  effectiveProbability,
+  updateTopic,
+  updateTopics,
+  type BulkTopicChanges,
+  type TopicDifficulty,
+  type TopicDraft,
+} from "@/lib/topicCuration";
+import {
+  DEFAULT_PREDICTION_VIEW,
+  PREDICTION_SORTS,
+  applyPredictionView,
+  groupTopicsByUnit,
+  parsePredictionView,
+  predictionViewToParams,
+  type PredictionSort,
+  type PredictionView,
+} from "@/lib/predictionView";
 
 interface PredictedTopic {
   id: string;
   subject: string;
   topic: string;
-  probability: number;
+  probability: number | null;
+  probability_override: number | null;
+  pinned: boolean;
+  pin_note: string | null;
   frequency: number;
   difficulty: string;
+  papers_asked: number;
+  papers_total: number;
+  syllabus_topic_id: string | null;
+  score_factors: ScoreFactors | null;
+  yearCounts: Record<string, number>;
+  unit: { title: string; position: number } | null;
   created_at: string;
 }
 
@@ -33,6 +113,22 @@ const itemVariants = {
   visible: { opacity: 1, y: 0 },
 };
 
+const NEW_TOPIC = "new";
+// Subject names are never empty, so this can't be mistaken for one
+const ALL_SUBJECTS = "";
+const ANY_DIFFICULTY = "any";
+
+const toDraft = (topic: PredictedTopic): TopicDraft => ({
+  topic: topic.topic,
+  subject: topic.subject,
+  difficulty: TOPIC_DIFFICULTIES.includes(topic.difficulty as TopicDifficulty)
+    ? (topic.difficulty as TopicDifficulty)
+    : "medium",
+  probabilityOverride: topic.probability_override,
+  pinned: topic.pinned,
+  pinNote: topic.pin_note ?? "",
+});
+
 const getDifficultyColor = (difficulty: string) => {
   switch (difficulty) {
     case "easy":
@@ -48,42 +144,349 @@ const getDifficultyColor = (difficulty: string) => {
 
 export default function Predictions() {
   const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [predictions, setPredictions] = useState<PredictedTopic[]>([]);
   const [loading, setLoading] = useState(true);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [unmatchedSubjects, setUnmatchedSubjects] = useState<string[]>([]);
+  const [coverage, setCoverage] = useState<SubjectCoverage[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  // A topic id, NEW_TOPIC while adding one, or null
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const [evidenceTopic, setEvidenceTopic] = useState<PredictedTopic | null>(null);
 
-  useEffect(() => {
-    if (!authLoading && user) {
-      fetchPredictions();
-    } else if (!authLoading && !user) {
-      setLoading(false);
-    }
-  }, [user, authLoading]);
-
-  const fetchPredictions = async () => {
+  const fetchPredictions = useCallback(async () => {
     if (!user) return;
     
     try {
       const { data, error } = await supabase
         .from("important_topics")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("probability", { ascending: false });
+        .select("*, syllabus_topics(syllabus_units(title, position))")
+        .eq("user_id", user.id);
 
       if (error) throw error;
-      setPredictions(data || []);
+      const rows = (data || []).map(({ syllabus_topics, ...row }) => ({
+        ...row,
+        score_factors: row.score_factors as unknown as ScoreFactors | null,
+        yearCounts: (row.year_counts ?? {}) as Record<string, number>,
+        unit: syllabus_topics?.syllabus_units ?? null,
+      }));
+      setPredictions(rows);
+      setSelected((prev) => new Set(rows.filter((row) => prev.has(row.id)).map((row) => row.id)));
     } catch (error) {
       console.error("Error fetching predictions:", error);
     } finally {
       setLoading(false);
     }
+  }, [user]);
+
+  const fetchCoverage = useCallback(async () => {
+    if (!user) return;
+    try {
+      setCoverage(await loadCoverage(user.id));
+    } catch (error) {
+      console.error("Error loading syllabus coverage:", error);
+    }
+  }, [user]);
+
+  // Recount topics from the latest papers and syllabi before showing them
+  const refreshAnalysis = useCallback(async () => {
+    if (!user) return;
+
+    setAnalyzing(true);
+    try {
+      const summary = await analyzeTopics(user.id);
+      setUnmatchedSubjects(summary.unmatchedSubjects);
+    } catch (error) {
+      console.error("Error analyzing topics:", error);
+      toast({
+        title: "Analysis failed",
+        description: "Showing the last saved predictions instead",
+        variant: "destructive",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+    await fetchPredictions();
+    await fetchCoverage();
+  }, [user, toast, fetchPredictions, fetchCoverage]);
+
+  // The analysis only re-runs when papers, syllabi or settings changed since the last run
+  const loadPage = useCallback(async () => {
+    if (!user) return;
+
+    // If the check fails, the saved predictions are shown and "Re-run analysis" stays available
+    let stale = false;
+    try {
+      stale = await isAnalysisStale();
+    } catch (error) {
+      console.error("Error checking analysis:", error);
+    }
+    if (stale) return refreshAnalysis();
+
+    loadUnmatchedSubjects(user.id)
+      .then(setUnmatchedSubjects)
+      .catch((error) => console.error("Error loading subjects:", error));
+    await fetchPredictions();
+    await fetchCoverage();
+  }, [user, refreshAnalysis, fetchPredictions, fetchCoverage]);
+
+  useEffect(() => {
+    if (!authLoading && user) {
+      loadPage();
+    } else if (!authLoading && !user) {
+      setLoading(false);
+    }
+  }, [user, authLoading, loadPage]);
+
+  const runCuration = async (action: () => Promise<void>, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: success });
+      setEditingId(null);
+      await fetchPredictions();
+    } catch (error) {
+      console.error("Error updating topics:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update topics",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (draft: TopicDraft) => {
+    if (!user) return;
+    const topic = predictions.find((p) => p.id === editingId);
+    runCuration(
+      () => (topic ? updateTopic(topic, draft) : addTopic(user.id, draft)),
+      topic ? "Topic updated" : "Topic added"
+    );
+  };
+
+  const handleBulkUpdate = (changes: BulkTopicChanges, success: string) =>
+    runCuration(() => updateTopics([...selected], changes), success);
+
+  const handleTogglePin = (topic: PredictedTopic) =>
+    runCuration(
+      () => updateTopics([topic.id], { pinned: !topic.pinned, pin_note: topic.pinned ? null : topic.pin_note }),
+      topic.pinned ? "Topic unpinned" : "Topic pinned"
+    );
+
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return;
+    const ids = pendingDelete;
+    setPendingDelete(null);
+    runCuration(async () => {
+      await deleteTopics(ids);
+      setSelected(new Set());
+    }, `Deleted ${ids.length} topic(s)`);
   };
 
-  const avgProbability = predictions.length > 0 
-    ? Math.round(predictions.reduce((sum, p) => sum + Number(p.probability), 0) / predictions.length)
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const scored = predictions.filter((p) => effectiveProbability(p) !== null);
+  const avgProbability = scored.length > 0
+    ? Math.round(scored.reduce((sum, p) => sum + Number(effectiveProbability(p)), 0) / scored.length)
     : 0;
 
+  const view = parsePredictionView(searchParams);
+  const updateView = (changes: Partial<PredictionView>) =>
+    setSearchParams(predictionViewToParams({ ...view, ...changes }), { replace: true });
+  // Subject, sort and grouping choose what to look at; the rest filter it
+  const isFiltered =
+    view.difficulty !== null ||
+    view.minProbability !== DEFAULT_PREDICTION_VIEW.minProbability ||
+    view.maxProbability !== DEFAULT_PREDICTION_VIEW.maxProbability;
+
+  const visible = applyPredictionView(predictions, view);
+  const groups = view.groupByUnit ? groupTopicsByUnit(visible) : [{ subject: view.subject, unit: null, topics: visible }];
+  const ranks = new Map(visible.map((topic, index) => [topic.id, index + 1]));
+
   const uniqueSubjects = new Set(predictions.map(p => p.subject)).size;
+  const analyzedSubjects = [...new Set(predictions.filter((p) => p.papers_total > 0).map((p) => p.subject))].sort();
+  const mentionedTopics = predictions.filter((p) => p.syllabus_topic_id === null);
+  const allSubjects = [...new Set(predictions.map((p) => p.subject))].sort();
+  const deletesAnalyzed = predictions.some((p) => pendingDelete?.includes(p.id) && p.syllabus_topic_id !== null);
+
+  // Trends and marks need one subject; without a subject tab, the first analyzed one is shown
+  const analysisSubject = view.subject ?? analyzedSubjects[0] ?? null;
+  const analysisTopics: TrendTopic[] = predictions
+    .filter((p) => p.subject === analysisSubject && p.syllabus_topic_id !== null)
+    .sort((a, b) => (a.unit?.position ?? 0) - (b.unit?.position ?? 0) || a.topic.localeCompare(b.topic))
+    .map((p) => ({ id: p.syllabus_topic_id!, name: p.topic, unit: p.unit?.title ?? null }));
+
+  const sameSubject = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  const subjectCoverage = view.subject
+    ? coverage.find((c) => sameSubject(c.subject, view.subject!))
+    : (analysisSubject && coverage.find((c) => sameSubject(c.subject, analysisSubject))) || coverage[0];
+  const blindSpotWarnings = coverage
+    .filter((c) => !view.subject || sameSubject(c.subject, view.subject))
+    .map((c) => ({ subject: c.subject, years: c.years.length, topics: blindSpots(c) }))
+    .filter((warning) => warning.topics.length > 0);
+
+  const renderTopicCard = (topic: PredictedTopic, rank: number) => (
+    <motion.div key={topic.id} variants={itemVariants}>
+      <Card variant="interactive" className="overflow-hidden">
+        <CardContent className="p-0">
+          <div className="flex flex-col sm:flex-row">
+            {/* Rank Badge */}
+            <div className="flex sm:flex-col items-center justify-center p-4 sm:p-6 bg-muted/30 sm:border-r border-b sm:border-b-0 border-border">
+              <Checkbox
+                aria-label={`Select ${topic.topic}`}
+                className="mr-3 sm:mr-0 sm:mb-3"
+                checked={selected.has(topic.id)}
+                onCheckedChange={(checked) => toggleSelected(topic.id, checked === true)}
+              />
+              <span className="text-xs text-muted-foreground mr-2 sm:mr-0 sm:mb-1">Rank</span>
+              <span className="text-2xl font-heading font-bold text-primary">
+                #{rank}
+              </span>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 p-4 sm:p-6">
+              {editingId === topic.id ? (
+                <TopicEditForm
+                  id={topic.id}
+                  initial={toDraft(topic)}
+                  subjects={allSubjects}
+                  lockNameAndSubject={topic.syllabus_topic_id !== null}
+                  saving={saving}
+                  onSave={handleSave}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <h3 className="font-heading font-semibold text-lg mb-2">
+                      {topic.topic}
+                    </h3>
+                    <div className="flex flex-wrap items-center gap-2 mb-4">
+                      <Badge
+                        variant="outline"
+                        className={getDifficultyColor(topic.difficulty)}
+                      >
+                        {topic.difficulty.charAt(0).toUpperCase() + topic.difficulty.slice(1)}
+                      </Badge>
+                      <Badge variant="secondary">
+                        {topic.subject}
+                      </Badge>
+                      {topic.pinned && (
+                        <Badge variant="outline" className="gap-1 bg-primary/10 text-primary border-primary/20">
+                          <Pin className="w-3 h-3" />
+                          Pinned
+                        </Badge>
+                      )}
+                      {topic.score_factors?.overdue && (
+                        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                          Overdue
+                        </Badge>
+                      )}
+                      {topic.score_factors?.period && (
+                        <Badge variant="outline">
+                          Every {topic.score_factors.period} years
+                          {topic.score_factors.nextExpectedYear && ` · due ${topic.score_factors.nextExpectedYear}`}
+                        </Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {topic.papers_total > 0
+                          ? `Asked in ${topic.papers_asked} of ${topic.papers_total} papers · ${topic.frequency} question(s)`
+                          : topic.frequency > 0
+                            ? `Mentioned ${topic.frequency}x by the AI`
+                            : "Added by you"}
+                      </span>
+                    </div>
+                    {topic.pinned && topic.pin_note && (
+                      <p className="text-sm text-muted-foreground italic -mt-2 mb-4">“{topic.pin_note}”</p>
+                    )}
+
+                    {/* Probability Bar */}
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-muted-foreground w-24">
+                        Likelihood:
+                      </span>
+                      <div className="flex-1 max-w-xs">
+                        <Progress value={Number(effectiveProbability(topic) ?? 0)} className="h-2" />
+                      </div>
+                      <span className="text-sm font-semibold text-primary">
+                        {effectiveProbability(topic) === null ? "No data" : `${effectiveProbability(topic)}%`}
+                      </span>
+                      {topic.probability_override !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          set by you{topic.probability !== null && ` · analysis ${topic.probability}%`}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" className="gap-1" onClick={() => setEvidenceTopic(topic)}>
+                      <HelpCircle className="w-4 h-4" />
+                      Why?
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Edit"
+                      disabled={saving}
+                      onClick={() => setEditingId(topic.id)}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={topic.pinned ? "Unpin" : "Pin"}
+                      disabled={saving}
+                      onClick={() => handleTogglePin(topic)}
+                    >
+                      {topic.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      disabled={saving}
+                      onClick={() => setPendingDelete([topic.id])}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      className="gap-2 ml-1"
+                      onClick={() => navigate("/ask-ai")}
+                    >
+                      <Zap className="w-4 h-4" />
+                      Study This
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
 
   if (authLoading || loading) {
     return (
@@ -113,12 +516,107 @@ export default function Predictions() {
               Predicted Important Topics
             </h1>
             <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-              {predictions.length > 0 
-                ? "Based on your uploaded materials and AI analysis, here are the topics most likely to appear in your exam."
-                : "Ask questions to the AI to generate topic predictions based on your study materials."}
+              {predictions.length > 0
+                ? "Based on how often and how recently each syllabus topic was asked in your past papers, its cycle and its marks, here are the topics most likely to appear in your exam."
+                : "Upload past papers and confirm your syllabus to generate topic predictions."}
             </p>
+            <div className="flex flex-wrap items-center justify-center gap-2 mt-4">
+              <Button variant="outline" size="sm" className="gap-2" disabled={analyzing} onClick={refreshAnalysis}>
+                <RefreshCw className={`w-4 h-4 ${analyzing ? "animate-spin" : ""}`} />
+                {analyzing ? "Analyzing papers..." : "Re-run analysis"}
+              </Button>
+              <Button variant="ghost" size="sm" className="gap-2" onClick={() => setSettingsOpen(true)}>
+                <SlidersHorizontal className="w-4 h-4" />
+                Model settings
+              </Button>
+              <Button variant="ghost" size="sm" className="gap-2" onClick={() => setMergeOpen(true)}>
+                <Merge className="w-4 h-4" />
+                Merge topics
+              </Button>
+              <Button
+                variant={view.showTrends ? "secondary" : "ghost"}
+                size="sm"
+                className="gap-2"
+                onClick={() => updateView({ showTrends: !view.showTrends })}
+              >
+                <LineChart className="w-4 h-4" />
+                Trends
+              </Button>
+              <Button
+                variant={view.showMarks ? "secondary" : "ghost"}
+                size="sm"
+                className="gap-2"
+                onClick={() => updateView({ showMarks: !view.showMarks })}
+              >
+                <Scale className="w-4 h-4" />
+                Marks
+              </Button>
+              <Button
+                variant={view.showCoverage ? "secondary" : "ghost"}
+                size="sm"
+                className="gap-2"
+                onClick={() => updateView({ showCoverage: !view.showCoverage })}
+              >
+                <ListTree className="w-4 h-4" />
+                Coverage
+              </Button>
+              <Button
+                variant={view.showBacktest ? "secondary" : "ghost"}
+                size="sm"
+                className="gap-2"
+                onClick={() => updateView({ showBacktest: !view.showBacktest })}
+              >
+                <FlaskConical className="w-4 h-4" />
+                Backtest
+              </Button>
+              <Button variant="ghost" size="sm" className="gap-2" onClick={() => setEditingId(NEW_TOPIC)}>
+                <Plus className="w-4 h-4" />
+                Add topic
+              </Button>
+            </div>
           </div>
 
+          {unmatchedSubjects.length > 0 && (
+            <Card variant="default" className="mb-8 border-warning/30">
+              <CardContent className="p-4 flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-muted-foreground">
+                  Papers for {unmatchedSubjects.join(", ")} can't be analyzed yet: upload and confirm a syllabus
+                  whose course name matches the paper subject.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Blind Spots */}
+          {blindSpotWarnings.map((warning) => (
+            <Card key={warning.subject} variant="default" className="mb-8 border-warning/30">
+              <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0" />
+                <p className="text-sm text-muted-foreground flex-1">
+                  Blind spots in {warning.subject}:{" "}
+                  {warning.topics
+                    .slice(0, 3)
+                    .map((topic) => `“${topic.title}”`)
+                    .join(", ")}
+                  {warning.topics.length > 3 && ` and ${warning.topics.length - 3} more syllabus topic(s)`} never came
+                  up in {warning.years} years of papers. They may still be examined, so don't skip them entirely.
+                </p>
+                {!(view.showCoverage && subjectCoverage?.subject === warning.subject) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => updateView({ subject: warning.subject, showCoverage: true })}
+                  >
+                    <ListTree className="w-4 h-4" />
+                    View coverage
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
           {/* Stats Overview */}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
             <Card variant="gradient">
@@ -156,6 +654,225 @@ export default function Predictions() {
             </Card>
           </div>
 
+          {editingId === NEW_TOPIC && (
+            <Card variant="default" className="mb-4">
+              <CardContent className="p-4 sm:p-6">
+                <h3 className="font-heading font-semibold mb-3">Add a topic</h3>
+                <TopicEditForm
+                  id="new-topic"
+                  initial={{
+                    topic: "",
+                    subject: allSubjects[0] ?? "",
+                    difficulty: "medium",
+                    probabilityOverride: null,
+                    pinned: true,
+                    pinNote: "",
+                  }}
+                  subjects={allSubjects}
+                  saving={saving}
+                  onSave={handleSave}
+                  onCancel={() => setEditingId(null)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Bulk Actions */}
+          {selected.size > 0 && (
+            <Card variant="default" className="mb-4 sticky top-20 z-10">
+              <CardContent className="p-3 flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium mr-2">{selected.size} selected</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={saving}
+                  onClick={() => handleBulkUpdate({ pinned: true }, `Pinned ${selected.size} topic(s)`)}
+                >
+                  <Pin className="w-4 h-4" />
+                  Pin
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={saving}
+                  onClick={() => handleBulkUpdate({ pinned: false, pin_note: null }, `Unpinned ${selected.size} topic(s)`)}
+                >
+                  <PinOff className="w-4 h-4" />
+                  Unpin
+                </Button>
+                <Select
+                  value=""
+                  disabled={saving}
+                  onValueChange={(difficulty) =>
+                    handleBulkUpdate({ difficulty }, `Marked ${selected.size} topic(s) as ${difficulty}`)
+                  }
+                >
+                  <SelectTrigger className="h-9 w-40">
+                    <SelectValue placeholder="Set difficulty" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TOPIC_DIFFICULTIES.map((difficulty) => (
+                      <SelectItem key={difficulty} value={difficulty}>
+                        {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2 text-destructive"
+                  disabled={saving}
+                  onClick={() => setPendingDelete([...selected])}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </Button>
+                <Button variant="ghost" size="sm" className="gap-2 ml-auto" onClick={() => setSelected(new Set())}>
+                  <X className="w-4 h-4" />
+                  Clear
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* View Controls */}
+          {predictions.length > 0 && (
+            <div className="space-y-4 mb-6">
+              {allSubjects.length > 1 && (
+                <Tabs
+                  value={view.subject ?? ALL_SUBJECTS}
+                  onValueChange={(subject) => updateView({ subject: subject === ALL_SUBJECTS ? null : subject })}
+                >
+                  <TabsList className="flex-wrap h-auto">
+                    <TabsTrigger value={ALL_SUBJECTS}>All subjects</TabsTrigger>
+                    {allSubjects.map((subject) => (
+                      <TabsTrigger key={subject} value={subject}>
+                        {subject}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              )}
+
+              <Card variant="default">
+                <CardContent className="p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="view-difficulty" className="text-xs">Difficulty</Label>
+                    <Select
+                      value={view.difficulty ?? ANY_DIFFICULTY}
+                      onValueChange={(value) =>
+                        updateView({ difficulty: value === ANY_DIFFICULTY ? null : (value as TopicDifficulty) })
+                      }
+                    >
+                      <SelectTrigger id="view-difficulty" className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_DIFFICULTY}>Any difficulty</SelectItem>
+                        {TOPIC_DIFFICULTIES.map((difficulty) => (
+                          <SelectItem key={difficulty} value={difficulty}>
+                            {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs">Probability</Label>
+                      <span className="text-xs font-medium">
+                        {view.minProbability}–{view.maxProbability}%
+                      </span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={100}
+                      step={5}
+                      minStepsBetweenThumbs={1}
+                      value={[view.minProbability, view.maxProbability]}
+                      onValueChange={([minProbability, maxProbability]) => updateView({ minProbability, maxProbability })}
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="view-sort" className="text-xs">Sort by</Label>
+                    <Select value={view.sort} onValueChange={(sort) => updateView({ sort: sort as PredictionSort })}>
+                      <SelectTrigger id="view-sort" className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PREDICTION_SORTS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2 h-9">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="view-group"
+                        checked={view.groupByUnit}
+                        onCheckedChange={(groupByUnit) => updateView({ groupByUnit })}
+                      />
+                      <Label htmlFor="view-group" className="text-xs">Group by unit</Label>
+                    </div>
+                    {isFiltered && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          updateView({
+                            difficulty: null,
+                            minProbability: DEFAULT_PREDICTION_VIEW.minProbability,
+                            maxProbability: DEFAULT_PREDICTION_VIEW.maxProbability,
+                          })
+                        }
+                      >
+                        Clear filters
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {(view.showTrends || view.showMarks || view.showCoverage || view.showBacktest) && (
+            <div className="space-y-6 mb-6">
+              {(view.showTrends || view.showMarks) &&
+                (!analysisSubject ? (
+                  <Card variant="default">
+                    <CardContent className="p-8 text-center text-muted-foreground">
+                      Trends and marks appear once papers have been analyzed against a confirmed syllabus.
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <>
+                    {view.showTrends && <TopicTrendsPanel subject={analysisSubject} topics={analysisTopics} />}
+                    {view.showMarks && <MarksWeightagePanel subject={analysisSubject} topics={analysisTopics} />}
+                  </>
+                ))}
+              {view.showCoverage &&
+                (subjectCoverage ? (
+                  <SyllabusCoveragePanel key={subjectCoverage.subject} coverage={subjectCoverage} />
+                ) : (
+                  <Card variant="default">
+                    <CardContent className="p-8 text-center text-muted-foreground">
+                      Coverage appears once you confirm a syllabus{view.subject && ` for ${view.subject}`}.
+                    </CardContent>
+                  </Card>
+                ))}
+              {view.showBacktest && <BacktestPanel subject={view.subject} />}
+            </div>
+          )}
+
           {/* Predictions List */}
           {predictions.length === 0 ? (
             <Card variant="gradient" className="text-center py-16">
@@ -167,12 +884,12 @@ export default function Predictions() {
                   No predictions yet
                 </h3>
                 <p className="text-muted-foreground mb-6">
-                  {user 
-                    ? "Start asking questions to the AI to generate topic predictions."
-                    : "Sign in and start asking questions to see AI predictions."}
+                  {user
+                    ? "Upload past papers and confirm your syllabus to see which topics come up most."
+                    : "Sign in and upload your papers to see predictions."}
                 </p>
-                <Button variant="hero" onClick={() => navigate(user ? "/ask-ai" : "/auth")}>
-                  {user ? "Ask AI Now" : "Sign In"}
+                <Button variant="hero" onClick={() => navigate(user ? "/upload" : "/auth")}>
+                  {user ? "Upload Papers" : "Sign In"}
                 </Button>
               </CardContent>
             </Card>
@@ -183,76 +900,65 @@ export default function Predictions() {
               animate="visible"
               className="space-y-4"
             >
-              {predictions.map((topic, index) => (
-                <motion.div key={topic.id} variants={itemVariants}>
-                  <Card variant="interactive" className="overflow-hidden">
-                    <CardContent className="p-0">
-                      <div className="flex flex-col sm:flex-row">
-                        {/* Rank Badge */}
-                        <div className="flex sm:flex-col items-center justify-center p-4 sm:p-6 bg-muted/30 sm:border-r border-b sm:border-b-0 border-border">
-                          <span className="text-xs text-muted-foreground mr-2 sm:mr-0 sm:mb-1">Rank</span>
-                          <span className="text-2xl font-heading font-bold text-primary">
-                            #{index + 1}
-                          </span>
-                        </div>
-
-                        {/* Content */}
-                        <div className="flex-1 p-4 sm:p-6">
-                          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
-                            <div className="flex-1">
-                              <h3 className="font-heading font-semibold text-lg mb-2">
-                                {topic.topic}
-                              </h3>
-                              <div className="flex flex-wrap items-center gap-2 mb-4">
-                                <Badge
-                                  variant="outline"
-                                  className={getDifficultyColor(topic.difficulty)}
-                                >
-                                  {topic.difficulty.charAt(0).toUpperCase() + topic.difficulty.slice(1)}
-                                </Badge>
-                                <Badge variant="secondary">
-                                  {topic.subject}
-                                </Badge>
-                                <span className="text-xs text-muted-foreground">
-                                  Frequency: {topic.frequency}x
-                                </span>
-                              </div>
-
-                              {/* Probability Bar */}
-                              <div className="flex items-center gap-3">
-                                <span className="text-sm text-muted-foreground w-24">
-                                  Likelihood:
-                                </span>
-                                <div className="flex-1 max-w-xs">
-                                  <Progress value={Number(topic.probability)} className="h-2" />
-                                </div>
-                                <span className="text-sm font-semibold text-primary">
-                                  {topic.probability}%
-                                </span>
-                              </div>
-                            </div>
-
-                            {/* Action */}
-                            <Button 
-                              variant="outline" 
-                              size="sm" 
-                              className="gap-2"
-                              onClick={() => navigate("/ask-ai")}
-                            >
-                              <Zap className="w-4 h-4" />
-                              Study This
-                              <ChevronRight className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </motion.div>
-              ))}
+              {visible.length === 0 && (
+                <Card variant="default">
+                  <CardContent className="p-8 text-center text-muted-foreground">
+                    No topics match these filters.
+                  </CardContent>
+                </Card>
+              )}
+              {groups.map((group) =>
+                group.topics.length === 0 ? null : (
+                  <div key={`${group.subject}:${group.unit}`} className="space-y-4">
+                    {view.groupByUnit && (
+                      <motion.div variants={itemVariants} className="flex items-center gap-2 pt-4">
+                        <h2 className="font-heading font-semibold text-lg">{group.unit ?? "Other topics"}</h2>
+                        {!view.subject && <Badge variant="secondary">{group.subject}</Badge>}
+                        <span className="text-sm text-muted-foreground">{group.topics.length} topic(s)</span>
+                      </motion.div>
+                    )}
+                    {group.topics.map((topic) => renderTopicCard(topic, ranks.get(topic.id)!))}
+                  </div>
+                )
+              )}
             </motion.div>
           )}
 
+          <PredictionSettingsDialog
+            open={settingsOpen}
+            subjects={analyzedSubjects}
+            onOpenChange={setSettingsOpen}
+            onSaved={refreshAnalysis}
+          />
+
+          <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {pendingDelete?.length === 1 ? "Delete this topic?" : `Delete ${pendingDelete?.length} topics?`}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deletesAnalyzed
+                    ? "Topics found in your past papers come back the next time the analysis runs."
+                    : "They will be permanently removed, along with their aliases."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
+          <TopicMergeDialog
+            open={mergeOpen}
+            topics={mentionedTopics}
+            onOpenChange={setMergeOpen}
+            onChanged={fetchPredictions}
+          />
+
+          <TopicEvidenceSheet topic={evidenceTopic} onOpenChange={(open) => !open && setEvidenceTopic(null)} />
+
           {/* Info Card */}
           <Card variant="glow" className="mt-8">
             <CardContent className="p-6">
@@ -0,0 +1,285 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListChecks, Search, Loader2, ExternalLink, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { formatQuestionLabel } from "@/lib/questions";
+import { fetchAllPages } from "@/lib/pagination";
+import { getSignedFileUrl } from "@/lib/fileAccess";
+import { cn } from "@/lib/utils";
+
+interface PaperQuestion {
+  id: string;
+  past_paper_id: string;
+  question_number: string;
+  sub_part: string | null;
+  section: string | null;
+  marks: number | null;
+  choice_group: string | null;
+  text: string;
+  position: number;
+  past_papers: {
+    year: string;
+    subject: string;
+    storage_path: string;
+  } | null;
+}
+
+interface PaperGroup {
+  paperId: string;
+  subject: string;
+  year: string;
+  storagePath: string | null;
+  questions: PaperQuestion[];
+}
+
+const ALL_SUBJECTS = "all";
+
+export default function Questions() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // Links from elsewhere can open one paper (?paper=) and point at a question on it (?question=)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const paperId = searchParams.get("paper");
+  const questionId = searchParams.get("question");
+  const [questions, setQuestions] = useState<PaperQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [subject, setSubject] = useState(ALL_SUBJECTS);
+
+  useEffect(() => {
+    if (!authLoading && user) {
+      fetchQuestions();
+    } else if (!authLoading && !user) {
+      setLoading(false);
+    }
+  }, [user, authLoading]);
+
+  const fetchQuestions = async () => {
+    if (!user) return;
+
+    try {
+      const data = await fetchAllPages((from, to) =>
+        supabase
+          .from("paper_questions")
+          .select("id, past_paper_id, question_number, sub_part, section, marks, choice_group, text, position, past_papers(year, subject, storage_path)")
+          .eq("user_id", user.id)
+          .order("position")
+          .order("id")
+          .range(from, to)
+      );
+      setQuestions(data);
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const subjects = [...new Set(questions.map((q) => q.past_papers?.subject).filter(Boolean))].sort();
+
+  const filteredQuestions = questions.filter((q) => {
+    const matchesPaper = !paperId || q.past_paper_id === paperId;
+    const matchesSubject = subject === ALL_SUBJECTS || q.past_papers?.subject === subject;
+    const matchesSearch = q.text.toLowerCase().includes(searchQuery.toLowerCase());
+    return matchesPaper && matchesSubject && matchesSearch;
+  });
+
+  // Newest papers first, questions in the order they appear on the paper
+  const paperGroups = Object.values(
+    filteredQuestions.reduce<Record<string, PaperGroup>>((groups, q) => {
+      groups[q.past_paper_id] ??= {
+        paperId: q.past_paper_id,
+        subject: q.past_papers?.subject ?? "Unknown",
+        year: q.past_papers?.year ?? "",
+        storagePath: q.past_papers?.storage_path ?? null,
+        questions: [],
+      };
+      groups[q.past_paper_id].questions.push(q);
+      return groups;
+    }, {})
+  ).sort((a, b) => b.year.localeCompare(a.year) || a.subject.localeCompare(b.subject));
+
+  useEffect(() => {
+    if (!loading && questionId) {
+      document.getElementById(`question-${questionId}`)?.scrollIntoView({ block: "center" });
+    }
+  }, [loading, questionId]);
+
+  const handleOpenPaper = async (storagePath: string) => {
+    // Open the tab synchronously so popup blockers allow it
+    const preview = window.open("", "_blank");
+    try {
+      const url = await getSignedFileUrl("past_papers", storagePath);
+      if (preview) preview.location.href = url;
+    } catch (error) {
+      preview?.close();
+      console.error("Preview error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open paper",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-5xl mx-auto"
+        >
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="font-heading text-3xl sm:text-4xl font-bold mb-2">
+              Question Bank
+            </h1>
+            <p className="text-muted-foreground">
+              Every question found in your uploaded past papers, with marks and sections
+            </p>
+          </div>
+
+          {/* Search and Filters */}
+          <Card variant="default" className="mb-6">
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search questions..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={subject} onValueChange={setSubject}>
+                  <SelectTrigger className="sm:w-56">
+                    <SelectValue placeholder="Subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                    {subjects.map((s) => (
+                      <SelectItem key={s} value={s}>
+                        {s}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {paperId && (
+            <div className="flex items-center justify-between gap-2 mb-4 text-sm text-muted-foreground">
+              Showing a single paper.
+              <Button variant="ghost" size="sm" className="gap-2" onClick={() => setSearchParams({})}>
+                <X className="w-4 h-4" />
+                Show all papers
+              </Button>
+            </div>
+          )}
+
+          {paperGroups.length === 0 ? (
+            <Card variant="gradient" className="text-center py-16">
+              <CardContent>
+                <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                  <ListChecks className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <h3 className="font-heading font-semibold text-xl mb-2">
+                  No questions found
+                </h3>
+                <p className="text-muted-foreground mb-6">
+                  {!user
+                    ? "Sign in and upload past papers to build your question bank."
+                    : searchQuery || subject !== ALL_SUBJECTS || paperId
+                      ? "Try a different search term or subject"
+                      : "Upload past papers and we'll split them into individual questions."}
+                </p>
+                <Button variant="hero" onClick={() => navigate(user ? "/upload" : "/auth")}>
+                  {user ? "Upload Papers" : "Sign In"}
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              {paperGroups.map((group) => (
+                <Card key={group.paperId} variant="default">
+                  <CardHeader className="pb-3 flex-row items-center justify-between gap-2 space-y-0">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {group.subject}
+                      <Badge variant="secondary">{group.year}</Badge>
+                    </CardTitle>
+                    {group.storagePath && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => handleOpenPaper(group.storagePath!)}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                        Open original
+                      </Button>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {group.questions.map((q) => (
+                      <div
+                        key={q.id}
+                        id={`question-${q.id}`}
+                        className={cn(
+                          "flex gap-4 p-3 bg-muted/50 rounded-lg",
+                          q.id === questionId && "ring-2 ring-primary bg-primary/5"
+                        )}
+                      >
+                        <span className="font-heading font-semibold text-primary w-14 flex-shrink-0">
+                          {formatQuestionLabel(q)}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm">{q.text}</p>
+                          <div className="flex flex-wrap items-center gap-2 mt-2">
+                            {q.section && (
+                              <Badge variant="outline">Section {q.section}</Badge>
+                            )}
+                            {q.choice_group && (
+                              <Badge variant="outline">OR choice</Badge>
+                            )}
+                          </div>
+                        </div>
+                        {q.marks !== null && (
+                          <span className="text-sm font-semibold text-muted-foreground flex-shrink-0">
+                            {q.marks} marks
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat, ListChecks, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { formatQuestionLabel } from "@/lib/questions";
+import { fetchAllPages } from "@/lib/pagination";
+import { findRepeatedQuestions, type ClusterableQuestion } from "@/lib/repeatedQuestions";
+
+interface BankQuestion extends ClusterableQuestion {
+  label: string;
+}
+
+const ALL_SUBJECTS = "all";
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: { opacity: 1, y: 0 },
+};
+
+export default function RepeatedQuestions() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [subject, setSubject] = useState(ALL_SUBJECTS);
+
+  useEffect(() => {
+    if (!authLoading && user) {
+      fetchQuestions();
+    } else if (!authLoading && !user) {
+      setLoading(false);
+    }
+  }, [user, authLoading]);
+
+  const fetchQuestions = async () => {
+    if (!user) return;
+
+    try {
+      const data = await fetchAllPages((from, to) =>
+        supabase
+          .from("paper_questions")
+          .select("id, past_paper_id, question_number, sub_part, marks, text, past_papers(year, subject)")
+          .eq("user_id", user.id)
+          .order("id")
+          .range(from, to)
+      );
+      setQuestions(
+        data
+          .filter((q) => q.past_papers)
+          .map((q) => ({
+            id: q.id,
+            paperId: q.past_paper_id,
+            subject: q.past_papers.subject,
+            year: q.past_papers.year,
+            text: q.text,
+            marks: q.marks,
+            label: formatQuestionLabel(q),
+          }))
+      );
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clusters = useMemo(() => findRepeatedQuestions(questions), [questions]);
+  const labels = useMemo(() => new Map(questions.map((q) => [q.id, q.label])), [questions]);
+
+  const subjects = [...new Set(clusters.map((cluster) => cluster.subject))].sort();
+  const filteredClusters = clusters.filter((cluster) => subject === ALL_SUBJECTS || cluster.subject === subject);
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-5xl mx-auto"
+        >
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="font-heading text-3xl sm:text-4xl font-bold mb-2">
+                Repeated Questions
+              </h1>
+              <p className="text-muted-foreground">
+                Questions asked again across years, grouped even when the wording changed
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={subject} onValueChange={setSubject}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                  {subjects.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" className="gap-2" onClick={() => navigate("/questions")}>
+                <ListChecks className="w-4 h-4" />
+                All questions
+              </Button>
+            </div>
+          </div>
+
+          {filteredClusters.length === 0 ? (
+            <Card variant="gradient" className="text-center py-16">
+              <CardContent>
+                <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                  <Repeat className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <h3 className="font-heading font-semibold text-xl mb-2">
+                  No repeated questions yet
+                </h3>
+                <p className="text-muted-foreground mb-6">
+                  {user
+                    ? "Upload papers from several years of the same subject to find questions that come back."
+                    : "Sign in and upload past papers to find repeated questions."}
+                </p>
+                <Button variant="hero" onClick={() => navigate(user ? "/upload" : "/auth")}>
+                  {user ? "Upload Papers" : "Sign In"}
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <motion.div variants={containerVariants} initial="hidden" animate="visible" className="space-y-4">
+              {filteredClusters.map((cluster) => (
+                <motion.div key={cluster.id} variants={itemVariants}>
+                  <Card variant="default">
+                    <CardContent className="p-4 sm:p-6">
+                      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-4">
+                        <p className="font-medium">{cluster.representative.text}</p>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <Badge variant="secondary">{cluster.subject}</Badge>
+                          <Badge className="bg-primary/10 text-primary border-primary/20" variant="outline">
+                            {cluster.years.length} year{cluster.years.length === 1 ? "" : "s"}
+                          </Badge>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        {cluster.questions.map((q) => (
+                          <div key={q.id} className="flex gap-4 p-3 bg-muted/50 rounded-lg text-sm">
+                            <span className="font-heading font-semibold text-primary w-12 flex-shrink-0">
+                              {q.year}
+                            </span>
+                            <span className="text-muted-foreground w-12 flex-shrink-0">{labels.get(q.id)}</span>
+                            <p className="flex-1 min-w-0">{q.text}</p>
+                            {q.marks !== null && (
+                              <span className="font-semibold text-muted-foreground flex-shrink-0">
+                                {q.marks} marks
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              ))}
+            </motion.div>
+          )}
+        </motion.div>
+      </div>
+    </Layout>
+  );
+}
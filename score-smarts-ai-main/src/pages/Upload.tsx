@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
@@ -6,17 +6,74 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
-import { Upload, FileText, Image, X, CheckCircle2, Loader2 } from "lucide-react";
+import { useUploadedDocuments } from "@/hooks/useUploadedDocuments";
+import { useSubjects } from "@/hooks/useSubjects";
+import { ExtractionStatusCard } from "@/components/upload/ExtractionStatusCard";
+import { SyllabusStructureCard } from "@/components/upload/SyllabusStructureCard";
+import { PaperMetadataForm } from "@/components/upload/PaperMetadataForm";
+import { QueuedFileStatus } from "@/components/upload/QueuedFileStatus";
+import { ZipDropZone } from "@/components/upload/ZipDropZone";
+import { ZipImportDialog } from "@/components/upload/ZipImportDialog";
+import { PaperAssemblyDialog, type AssembledPaper } from "@/components/upload/PaperAssemblyDialog";
+import { DuplicateNotice } from "@/components/upload/DuplicateNotice";
+import { recognizePages } from "@/lib/ocr";
+import { saveExtractedPages, markExtractionFailed } from "@/lib/documentPages";
+import { uploadDocuments, type UploadOutcome } from "@/lib/documentUpload";
+import { readZipArchive, type ZipImportEntry } from "@/lib/zipImport";
+import { findDuplicates, hashFile, type ExistingDocument } from "@/lib/duplicates";
+import { MAX_FILE_SIZE_MB, validateFile } from "@/lib/fileValidation";
+import { convertDocument, importStudyNote, isConvertible } from "@/lib/textImport";
+import type { StoredDocument } from "@/lib/documentFiles";
+import {
+  guessPaperMetadata,
+  formatPaperSummary,
+  isValidPaperMetadata,
+  type PaperMetadata,
+} from "@/lib/paperMetadata";
+import { Upload, FileText, Image, X, CheckCircle2, Loader2, Pencil, FolderOpen, Layers, NotebookPen } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface UploadedFile {
   id: string;
   name: string;
-  type: "pdf" | "image";
+  type: "pdf" | "image" | "word" | "text";
   size: string;
   category: "syllabus" | "question-paper";
   file: File;
+  /** Exam details for question papers, prefilled from the filename */
+  metadata?: PaperMetadata;
+  status?: "checking" | "invalid" | "uploading" | "failed";
+  /** Percentage of the file sent so far while uploading */
+  progress?: number;
+  /** Why the last upload attempt failed */
+  error?: string;
+  /** SHA-256 of the file, filled in in the background once it is queued */
+  contentHash?: string;
+  /** Existing document the user chose to overwrite with this file */
+  replaces?: StoredDocument;
+  /** Edited photos of an assembled paper, read with OCR once it is uploaded */
+  pageImages?: Blob[];
+}
+
+// Photographed papers go through OCR and Word/Markdown/text files are converted in
+// the browser, so neither waits for the server-side PDF extraction
+const readsInBrowser = (file: UploadedFile) =>
+  !!file.pageImages || (file.category === "question-paper" && file.type === "image") || isConvertible(file.file);
+
+const RECENT_DOCUMENTS_LIMIT = 8;
+
+/** Validates a queued file and, if it is usable, labels it with its real type and hashes it. */
+async function inspectQueuedFile(queued: UploadedFile): Promise<Partial<UploadedFile>> {
+  const check = await validateFile(queued.file, queued.category);
+  if (check.valid === false) return { status: "invalid", error: check.error };
+
+  // The buckets only accept known MIME types, so don't rely on the browser's guess
+  const file =
+    queued.file.type === check.mimeType
+      ? queued.file
+      : new File([queued.file], queued.file.name, { type: check.mimeType, lastModified: queued.file.lastModified });
+
+  return { status: undefined, type: check.kind, file, contentHash: await hashFile(file) };
 }
 
 export default function UploadPage() {
@@ -26,8 +83,52 @@ export default function UploadPage() {
   const [syllabusFiles, setSyllabusFiles] = useState<UploadedFile[]>([]);
   const [questionPaperFiles, setQuestionPaperFiles] = useState<UploadedFile[]>([]);
   const [uploading, setUploading] = useState(false);
-  const [existingSyllabus, setExistingSyllabus] = useState<number>(0);
-  const [existingPapers, setExistingPapers] = useState<number>(0);
+  const [editingFileId, setEditingFileId] = useState<string | null>(null);
+  const [readingArchive, setReadingArchive] = useState(false);
+  const [archiveEntries, setArchiveEntries] = useState<ZipImportEntry[] | null>(null);
+  const [assemblyImages, setAssemblyImages] = useState<UploadedFile[] | null>(null);
+  const [importingNotes, setImportingNotes] = useState(false);
+  const { subjects, refresh: refreshSubjects } = useSubjects();
+  const { syllabus, papers, refresh: refreshDocuments } = useUploadedDocuments();
+  const existingSyllabus = syllabus.length;
+  const existingPapers = papers.length;
+  const recentDocuments = [...syllabus, ...papers]
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))
+    .slice(0, RECENT_DOCUMENTS_LIMIT);
+  const inspectedIds = useRef(new Set<string>());
+
+  const existingDocuments = useMemo<ExistingDocument[]>(
+    () =>
+      [...syllabus, ...papers].map((doc) => ({
+        id: doc.id,
+        table: doc.table,
+        title: doc.name,
+        storagePath: doc.storagePath,
+        contentHash: doc.contentHash,
+        paper: doc.paper,
+      })),
+    [syllabus, papers]
+  );
+  const duplicates = findDuplicates([...syllabusFiles, ...questionPaperFiles], existingDocuments);
+
+  // Check and hash queued files in the background so bad files and duplicates are flagged before upload
+  useEffect(() => {
+    for (const file of [...syllabusFiles, ...questionPaperFiles]) {
+      if (inspectedIds.current.has(file.id)) continue;
+      inspectedIds.current.add(file.id);
+
+      inspectQueuedFile(file)
+        .catch((error): Partial<UploadedFile> => {
+          console.error("File check error:", error);
+          return { status: "invalid", error: "The file could not be read" };
+        })
+        .then((changes) => {
+          const apply = (files: UploadedFile[]) => files.map((f) => (f.id === file.id ? { ...f, ...changes } : f));
+          setSyllabusFiles(apply);
+          setQuestionPaperFiles(apply);
+        });
+    }
+  }, [syllabusFiles, questionPaperFiles]);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -40,29 +141,6 @@ export default function UploadPage() {
     }
   }, [user, loading, navigate, toast]);
 
-  useEffect(() => {
-    if (user) {
-      fetchExistingFiles();
-    }
-  }, [user]);
-
-  const fetchExistingFiles = async () => {
-    if (!user) return;
-    
-    const { count: syllabusCount } = await supabase
-      .from("syllabus")
-      .select("*", { count: "exact", head: true })
-      .eq("user_id", user.id);
-    
-    const { count: papersCount } = await supabase
-      .from("past_papers")
-      .select("*", { count: "exact", head: true })
-      .eq("user_id", user.id);
-    
-    setExistingSyllabus(syllabusCount || 0);
-    setExistingPapers(papersCount || 0);
-  };
-
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
@@ -79,9 +157,11 @@ export default function UploadPage() {
           id: crypto.randomUUID(),
           name: file.name,
           type: file.type.includes("pdf") ? "pdf" : "image",
+          status: "checking",
           size: formatFileSize(file.size),
           category,
           file,
+          metadata: category === "question-paper" ? guessPaperMetadata(file.name, subjects) : undefined,
         }));
 
         if (category === "syllabus") {
@@ -95,9 +175,94 @@ export default function UploadPage() {
           description: `${newFiles.length} file(s) added. Click "Start AI Analysis" to upload and analyze.`,
         });
       },
-    [toast]
+    [toast, subjects]
+  );
+
+  const handleArchive = async (archive: File) => {
+    setReadingArchive(true);
+    try {
+      const entries = await readZipArchive(archive, subjects);
+      if (entries.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: "The archive has no PDF, image or Word files in it",
+          variant: "destructive",
+        });
+        return;
+      }
+      setArchiveEntries(entries);
+    } catch (error) {
+      console.error("ZIP import error:", error);
+      toast({
+        title: "Could not open archive",
+        description: "Make sure it is a valid ZIP file",
+        variant: "destructive",
+      });
+    } finally {
+      setReadingArchive(false);
+    }
+  };
+
+  const handleArchiveOpenChange = useCallback((open: boolean) => {
+    if (!open) setArchiveEntries(null);
+  }, []);
+
+  const handleArchiveImport = (entries: ZipImportEntry[]) => {
+    const newFiles: UploadedFile[] = entries.map((entry) => ({
+      id: entry.id,
+      name: entry.path.split("/").pop()!,
+      type: entry.file.type.includes("pdf") ? "pdf" : "image",
+      status: "checking",
+      size: formatFileSize(entry.file.size),
+      category: entry.category,
+      file: entry.file,
+      metadata: entry.category === "question-paper" ? entry.metadata : undefined,
+    }));
+
+    setSyllabusFiles((prev) => [...prev, ...newFiles.filter((f) => f.category === "syllabus")]);
+    setQuestionPaperFiles((prev) => [...prev, ...newFiles.filter((f) => f.category === "question-paper")]);
+
+    toast({
+      title: "Files ready",
+      description: `${newFiles.length} file(s) added from the archive. Click "Start AI Analysis" to upload and analyze.`,
+    });
+  };
+
+  // Photos that can still be combined: not uploading, and known to be images
+  const looseImages = questionPaperFiles.filter(
+    (f) => f.type === "image" && !f.pageImages && (!f.status || f.status === "failed")
   );
 
+  const handleAssemblyOpenChange = useCallback((open: boolean) => {
+    if (!open) setAssemblyImages(null);
+  }, []);
+
+  const handleAssembled = (paper: AssembledPaper) => {
+    setQuestionPaperFiles((prev) => [
+      ...prev.filter((f) => !paper.sourceIds.includes(f.id)),
+      {
+        id: crypto.randomUUID(),
+        name: paper.file.name,
+        type: "pdf",
+        size: formatFileSize(paper.file.size),
+        category: "question-paper",
+        file: paper.file,
+        metadata: paper.metadata,
+        pageImages: paper.pageImages,
+        status: "checking",
+      },
+    ]);
+
+    toast({
+      title: "Paper assembled",
+      description: `${paper.sourceIds.length} photo(s) combined into ${paper.file.name}.`,
+    });
+  };
+
+  const updateMetadata = (id: string, metadata: PaperMetadata) => {
+    setQuestionPaperFiles((prev) => prev.map((f) => (f.id === id ? { ...f, metadata } : f)));
+  };
+
   const removeFile = (category: "syllabus" | "question-paper", id: string) => {
     if (category === "syllabus") {
       setSyllabusFiles((prev) => prev.filter((f) => f.id !== id));
@@ -106,72 +271,177 @@ export default function UploadPage() {
     }
   };
 
-  const uploadFilesToStorage = async () => {
+  const extractInBrowser = async (file: UploadedFile, documentId: string) => {
     if (!user) return;
+    const table = file.category === "syllabus" ? "syllabus" : "past_papers";
 
-    const uploadPromises: Promise<void>[] = [];
-
-    // Upload syllabus files
-    for (const file of syllabusFiles) {
-      const filePath = `${user.id}/${crypto.randomUUID()}-${file.name}`;
-      
-      const uploadPromise = supabase.storage
-        .from("syllabus")
-        .upload(filePath, file.file)
-        .then(async ({ data, error }) => {
-          if (error) throw error;
-          
-          const { data: publicUrl } = supabase.storage
-            .from("syllabus")
-            .getPublicUrl(filePath);
-          
-          await supabase.from("syllabus").insert({
-            user_id: user.id,
-            title: file.name,
-            file_url: publicUrl.publicUrl,
-          });
-        });
-      
-      uploadPromises.push(uploadPromise);
+    try {
+      if (isConvertible(file.file)) {
+        const { content } = await convertDocument(file.file);
+        await saveExtractedPages(table, documentId, user.id, [{ pageNumber: 1, content }], "document_text");
+      } else {
+        const pages = await recognizePages(file.pageImages ?? [file.file]);
+        await saveExtractedPages(table, documentId, user.id, pages, "ocr");
+      }
+    } catch (error) {
+      console.error("Text extraction error:", error);
+      await markExtractionFailed(
+        table,
+        documentId,
+        error instanceof Error ? error.message : "Text extraction failed"
+      );
     }
+  };
 
-    // Upload question paper files
-    for (const file of questionPaperFiles) {
-      const filePath = `${user.id}/${crypto.randomUUID()}-${file.name}`;
-      
-      // Extract year from filename or default to current year
-      const yearMatch = file.name.match(/20\d{2}/);
-      const year = yearMatch ? yearMatch[0] : new Date().getFullYear().toString();
-      
-      // Extract subject from filename
-      const subject = file.name.replace(/\.\w+$/, "").replace(/20\d{2}/, "").trim() || "General";
-      
-      const uploadPromise = supabase.storage
-        .from("past-papers")
-        .upload(filePath, file.file)
-        .then(async ({ data, error }) => {
-          if (error) throw error;
-          
-          const { data: publicUrl } = supabase.storage
-            .from("past-papers")
-            .getPublicUrl(filePath);
-          
-          await supabase.from("past_papers").insert({
-            user_id: user.id,
-            year,
-            subject,
-            file_url: publicUrl.publicUrl,
-          });
-        });
-      
-      uploadPromises.push(uploadPromise);
+  const updateQueuedFile = (id: string, changes: Partial<UploadedFile>) => {
+    const apply = (files: UploadedFile[]) => files.map((f) => (f.id === id ? { ...f, ...changes } : f));
+    setSyllabusFiles(apply);
+    setQuestionPaperFiles(apply);
+  };
+
+  // Uploaded files leave the queue as soon as they finish; failed ones stay with
+  // their reason so they can be retried on their own. Text is read in the
+  // browser afterwards without holding up the upload, and the document list
+  // refreshes when it is done.
+  const uploadFilesToStorage = async (queue: UploadedFile[]) => {
+    if (!user) return [];
+
+    queue.forEach((file) => updateQueuedFile(file.id, { status: "uploading", progress: 0, error: undefined }));
+
+    const outcomes = await uploadDocuments(
+      queue.map((file) => ({
+        table: file.category === "syllabus" ? "syllabus" : "past_papers",
+        file: file.file,
+        metadata: file.metadata,
+        extractInBrowser: readsInBrowser(file),
+        contentHash: file.contentHash,
+        replaces: file.replaces,
+      })),
+      user.id,
+      {
+        onProgress: (index, progress) => updateQueuedFile(queue[index].id, { progress }),
+        onSettled: (index, outcome) => {
+          const file = queue[index];
+          if (outcome.status === "failed") {
+            updateQueuedFile(file.id, { status: "failed", error: outcome.error });
+            return;
+          }
+          removeFile(file.category, file.id);
+          if (readsInBrowser(file)) void extractInBrowser(file, outcome.documentId).then(refreshDocuments);
+        },
+      }
+    );
+
+    return outcomes;
+  };
+
+  const handleNotesImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!user || files.length === 0) return;
+
+    setImportingNotes(true);
+    const failures: string[] = [];
+
+    for (const file of files) {
+      try {
+        const check = await validateFile(file, "notes");
+        if (check.valid === false) throw new Error(check.error);
+        await importStudyNote(new File([file], file.name, { type: check.mimeType }), user.id);
+      } catch (error) {
+        console.error("Note import error:", error);
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : "could not be read"}`);
+      }
+    }
+
+    setImportingNotes(false);
+
+    if (failures.length === 0) {
+      toast({
+        title: "Notes imported",
+        description: `${files.length} note(s) added to your study notes.`,
+      });
+    } else {
+      toast({
+        title: `${failures.length} of ${files.length} note(s) could not be imported`,
+        description: failures.join("\n"),
+        variant: "destructive",
+      });
     }
+  };
 
-    await Promise.all(uploadPromises);
+  const findIncompletePaper = (files: UploadedFile[]) => {
+    const incomplete = files.find(
+      (f) => f.category === "question-paper" && (!f.metadata || !isValidPaperMetadata(f.metadata))
+    );
+    if (incomplete) {
+      setEditingFileId(incomplete.id);
+      toast({
+        title: "Paper details missing",
+        description: `Add a subject and a valid year for ${incomplete.name}`,
+        variant: "destructive",
+      });
+    }
+    return incomplete;
+  };
+
+  const findUnusableFile = (files: UploadedFile[]) => {
+    const unusable = files.find((f) => f.status === "checking" || f.status === "invalid");
+    if (unusable) {
+      toast(
+        unusable.status === "checking"
+          ? { title: "Still checking files", description: `${unusable.name} is still being checked. Try again in a moment.` }
+          : {
+              title: "File can't be uploaded",
+              description: `${unusable.name}: ${unusable.error}. Remove it to continue.`,
+              variant: "destructive",
+            }
+      );
+    }
+    return unusable;
+  };
+
+  // Identical files would be rejected by the database, so they must be skipped or replace the original
+  const findUnresolvedDuplicate = (files: UploadedFile[]) => {
+    const duplicate = files.find((f) => {
+      const kind = duplicates.get(f.id)?.kind;
+      return !f.replaces && (kind === "exact" || kind === "queued");
+    });
+    if (duplicate) {
+      toast({
+        title: "Duplicate file",
+        description: `${duplicate.name} is a copy of a file you already have. Skip it or replace the existing copy.`,
+        variant: "destructive",
+      });
+    }
+    return duplicate;
+  };
+
+  const reportOutcomes = async (outcomes: UploadOutcome[]) => {
+    const failed = outcomes.filter((outcome) => outcome.status === "failed").length;
+
+    if (failed === 0) {
+      toast({
+        title: "Upload successful!",
+        description: "Your files have been uploaded. We're extracting their text so the AI can read them.",
+      });
+    } else {
+      toast({
+        title: `${failed} of ${outcomes.length} file(s) failed to upload`,
+        description: "They are still in the list with the reason. Retry them individually.",
+        variant: "destructive",
+      });
+    }
+
+    if (failed < outcomes.length) {
+      await Promise.all([refreshDocuments(), refreshSubjects()]);
+    }
   };
 
   const handleAnalyze = async () => {
-    if (syllabusFiles.length === 0 && questionPaperFiles.length === 0) {
+    const queue = [...syllabusFiles, ...questionPaperFiles].filter((f) => f.status !== "uploading");
+
+    if (queue.length === 0) {
       toast({
         title: "No files selected",
         description: "Please select at least one file before analyzing",
@@ -190,23 +460,14 @@ export default function UploadPage() {
       return;
     }
 
+    if (findUnusableFile(queue)) return;
+    if (findIncompletePaper(queue)) return;
+    if (findUnresolvedDuplicate(queue)) return;
+
     setUploading(true);
 
     try {
-      await uploadFilesToStorage();
-      
-      toast({
-        title: "Upload successful!",
-        description: "Your files have been uploaded. You can now ask AI questions about them.",
-      });
-      
-      // Clear local files and refresh counts
-      setSyllabusFiles([]);
-      setQuestionPaperFiles([]);
-      await fetchExistingFiles();
-      
-      // Navigate to Ask AI page
-      navigate("/ask-ai");
+      await reportOutcomes(await uploadFilesToStorage(queue));
     } catch (error) {
       console.error("Upload error:", error);
       toast({
@@ -219,6 +480,16 @@ export default function UploadPage() {
     }
   };
 
+  const handleRetry = async (file: UploadedFile) => {
+    if (findUnusableFile([file]) || findIncompletePaper([file]) || findUnresolvedDuplicate([file])) return;
+
+    try {
+      await reportOutcomes(await uploadFilesToStorage([file]));
+    } catch (error) {
+      console.error("Upload error:", error);
+    }
+  };
+
   if (loading) {
     return (
       <Layout>
@@ -247,6 +518,8 @@ export default function UploadPage() {
             </p>
           </div>
 
+          <ZipDropZone busy={readingArchive} onArchive={handleArchive} />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             {/* Syllabus Upload */}
             <Card variant="gradient">
@@ -256,7 +529,7 @@ export default function UploadPage() {
                   Syllabus
                 </CardTitle>
                 <CardDescription>
-                  Upload your course syllabus (PDF format preferred)
+                  Upload your course syllabus (PDF, Word, Markdown or text)
                   {existingSyllabus > 0 && (
                     <span className="block mt-1 text-primary">
                       {existingSyllabus} file(s) already uploaded
@@ -271,11 +544,11 @@ export default function UploadPage() {
                     Click to upload or drag and drop
                   </span>
                   <span className="text-xs text-muted-foreground mt-1">
-                    PDF, DOC up to 10MB
+                    PDF, DOCX, MD, TXT up to {MAX_FILE_SIZE_MB}MB
                   </span>
                   <Input
                     type="file"
-                    accept=".pdf,.doc,.docx"
+                    accept=".pdf,.docx,.md,.markdown,.txt"
                     multiple
                     className="hidden"
                     onChange={handleFileUpload("syllabus")}
@@ -297,25 +570,44 @@ export default function UploadPage() {
                           initial={{ opacity: 0, x: -20 }}
                           animate={{ opacity: 1, x: 0 }}
                           exit={{ opacity: 0, x: 20 }}
-                          className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                          className="p-3 bg-muted/50 rounded-lg"
                         >
-                          <div className="flex items-center gap-3">
-                            <FileText className="w-4 h-4 text-primary" />
-                            <div>
-                              <p className="text-sm font-medium truncate max-w-[150px]">
-                                {file.name}
-                              </p>
-                              <p className="text-xs text-muted-foreground">
-                                {file.size}
-                              </p>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              <FileText className="w-4 h-4 text-primary" />
+                              <div>
+                                <p className="text-sm font-medium truncate max-w-[150px]">
+                                  {file.name}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {file.size}
+                                </p>
+                              </div>
                             </div>
+                            {file.status !== "uploading" && (
+                              <button
+                                onClick={() => removeFile("syllabus", file.id)}
+                                className="p-1 hover:bg-destructive/10 rounded-lg transition-colors"
+                              >
+                                <X className="w-4 h-4 text-destructive" />
+                              </button>
+                            )}
                           </div>
-                          <button
-                            onClick={() => removeFile("syllabus", file.id)}
-                            className="p-1 hover:bg-destructive/10 rounded-lg transition-colors"
-                          >
-                            <X className="w-4 h-4 text-destructive" />
-                          </button>
+                          <QueuedFileStatus
+                            status={file.status}
+                            progress={file.progress}
+                            error={file.error}
+                            onRetry={() => handleRetry(file)}
+                          />
+                          {(!file.status || file.status === "failed") && (
+                            <DuplicateNotice
+                              match={duplicates.get(file.id)}
+                              replacing={file.replaces}
+                              onSkip={() => removeFile(file.category, file.id)}
+                              onReplace={(existing) => updateQueuedFile(file.id, { replaces: existing })}
+                              onUndoReplace={() => updateQueuedFile(file.id, { replaces: undefined })}
+                            />
+                          )}
                         </motion.div>
                       ))}
                     </motion.div>
@@ -347,7 +639,7 @@ export default function UploadPage() {
                     Click to upload or drag and drop
                   </span>
                   <span className="text-xs text-muted-foreground mt-1">
-                    PDF, PNG, JPG up to 10MB each
+                    PDF, PNG, JPG up to {MAX_FILE_SIZE_MB}MB each
                   </span>
                   <Input
                     type="file"
@@ -373,38 +665,122 @@ export default function UploadPage() {
                           initial={{ opacity: 0, x: -20 }}
                           animate={{ opacity: 1, x: 0 }}
                           exit={{ opacity: 0, x: 20 }}
-                          className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                          className="p-3 bg-muted/50 rounded-lg"
                         >
-                          <div className="flex items-center gap-3">
-                            {file.type === "pdf" ? (
-                              <FileText className="w-4 h-4 text-primary" />
-                            ) : (
-                              <Image className="w-4 h-4 text-primary" />
-                            )}
-                            <div>
-                              <p className="text-sm font-medium truncate max-w-[150px]">
-                                {file.name}
-                              </p>
-                              <p className="text-xs text-muted-foreground">
-                                {file.size}
-                              </p>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              {file.type === "pdf" ? (
+                                <FileText className="w-4 h-4 text-primary" />
+                              ) : (
+                                <Image className="w-4 h-4 text-primary" />
+                              )}
+                              <div>
+                                <p className="text-sm font-medium truncate max-w-[150px]">
+                                  {file.name}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {file.size}
+                                  {file.metadata && ` · ${formatPaperSummary(file.metadata)}`}
+                                </p>
+                              </div>
                             </div>
+                            {file.status !== "uploading" && (
+                              <div className="flex items-center gap-1">
+                                <button
+                                  onClick={() => setEditingFileId(editingFileId === file.id ? null : file.id)}
+                                  className="p-1 hover:bg-primary/10 rounded-lg transition-colors"
+                                >
+                                  <Pencil className="w-4 h-4 text-primary" />
+                                </button>
+                                <button
+                                  onClick={() => removeFile("question-paper", file.id)}
+                                  className="p-1 hover:bg-destructive/10 rounded-lg transition-colors"
+                                >
+                                  <X className="w-4 h-4 text-destructive" />
+                                </button>
+                              </div>
+                            )}
                           </div>
-                          <button
-                            onClick={() => removeFile("question-paper", file.id)}
-                            className="p-1 hover:bg-destructive/10 rounded-lg transition-colors"
-                          >
-                            <X className="w-4 h-4 text-destructive" />
-                          </button>
+                          <QueuedFileStatus
+                            status={file.status}
+                            progress={file.progress}
+                            error={file.error}
+                            onRetry={() => handleRetry(file)}
+                          />
+                          {(!file.status || file.status === "failed") && (
+                            <DuplicateNotice
+                              match={duplicates.get(file.id)}
+                              replacing={file.replaces}
+                              onSkip={() => removeFile(file.category, file.id)}
+                              onReplace={(existing) => updateQueuedFile(file.id, { replaces: existing })}
+                              onUndoReplace={() => updateQueuedFile(file.id, { replaces: undefined })}
+                            />
+                          )}
+                          {editingFileId === file.id && file.metadata && file.status !== "uploading" && (
+                            <PaperMetadataForm
+                              id={file.id}
+                              metadata={file.metadata}
+                              subjects={subjects}
+                              onChange={(metadata) => updateMetadata(file.id, metadata)}
+                            />
+                          )}
                         </motion.div>
                       ))}
                     </motion.div>
                   )}
                 </AnimatePresence>
+
+                {looseImages.length >= 2 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full mt-4 gap-2"
+                    onClick={() => setAssemblyImages(looseImages)}
+                  >
+                    <Layers className="w-4 h-4" />
+                    Combine {looseImages.length} photos into one paper
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </div>
 
+          {/* Study Notes Import */}
+          <Card variant="default" className="mb-8">
+            <CardContent className="p-6">
+              <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <NotebookPen className="w-5 h-5 text-primary" />
+                  <div>
+                    <p className="font-medium">Import study notes</p>
+                    <p className="text-sm text-muted-foreground">
+                      Word, Markdown or text files become notes the AI can use when answering.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => navigate("/notes")}>
+                    View notes
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-2" disabled={importingNotes} asChild>
+                    <label className="cursor-pointer">
+                      {importingNotes ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                      Import notes
+                      <Input
+                        type="file"
+                        accept=".docx,.md,.markdown,.txt"
+                        multiple
+                        className="hidden"
+                        disabled={importingNotes}
+                        onChange={handleNotesImport}
+                      />
+                    </label>
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Status Summary */}
           <Card variant="default" className="mb-8">
             <CardContent className="p-6">
@@ -423,33 +799,61 @@ export default function UploadPage() {
                     </span>
                   </div>
                 </div>
-                <Button
-                  variant="hero"
-                  size="lg"
-                  onClick={handleAnalyze}
-                  disabled={uploading || (syllabusFiles.length === 0 && questionPaperFiles.length === 0)}
-                >
-                  {uploading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      Uploading...
-                    </>
-                  ) : (
-                    <>
-                      Start AI Analysis
-                    </>
-                  )}
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="lg" className="gap-2" onClick={() => navigate("/files")}>
+                    <FolderOpen className="w-4 h-4" />
+                    My Files
+                  </Button>
+                  <Button
+                    variant="hero"
+                    size="lg"
+                    onClick={handleAnalyze}
+                    disabled={uploading || (syllabusFiles.length === 0 && questionPaperFiles.length === 0)}
+                  >
+                    {uploading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Uploading...
+                      </>
+                    ) : (
+                      <>
+                        Start AI Analysis
+                      </>
+                    )}
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
 
+          <ZipImportDialog
+            entries={archiveEntries}
+            subjects={subjects}
+            onOpenChange={handleArchiveOpenChange}
+            onImport={handleArchiveImport}
+          />
+
+          <PaperAssemblyDialog
+            images={assemblyImages}
+            subjects={subjects}
+            onOpenChange={handleAssemblyOpenChange}
+            onAssembled={handleAssembled}
+          />
+
+          <ExtractionStatusCard documents={recentDocuments} />
+
+          <SyllabusStructureCard syllabus={syllabus} onChanged={refreshDocuments} />
+
           {/* Tips */}
           <div className="text-center text-sm text-muted-foreground">
             <p>
               Tip: Upload question papers from at least 5-10 years for better
               analysis and predictions.
             </p>
+            <p className="mt-1">
+              Large scans upload in the background. If an upload is interrupted,
+              add the same file again and it continues where it stopped.
+            </p>
           </div>
         </motion.div>
       </div>
@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { DocumentTable } from "./documents.ts";
+import { segmentQuestions } from "./segmentQuestions.ts";
+import { parseSyllabus } from "./parseSyllabus.ts";
+
+// Structural analysis that runs once a document's text is in `document_pages`,
+// whether it was extracted server-side or recognised in the browser.
+export async function analyzeDocument(supabase: SupabaseClient, table: DocumentTable, id: string) {
+  if (table === "past_papers") {
+    await storePaperQuestions(supabase, id);
+  } else {
+    await storeSyllabusTree(supabase, id);
+  }
+}
+
+async function loadPages(supabase: SupabaseClient, foreignKey: string, id: string) {
+  const { data: pages, error } = await supabase
+    .from("document_pages")
+    .select("page_number, content")
+    .eq(foreignKey, id)
+    .order("page_number");
+  if (error) throw error;
+  return pages ?? [];
+}
+
+async function storePaperQuestions(supabase: SupabaseClient, paperId: string) {
+  const { data: paper, error: paperError } = await supabase
+    .from("past_papers")
+    .select("user_id")
+    .eq("id", paperId)
+    .single();
+  if (paperError) throw paperError;
+
+  const questions = segmentQuestions(await loadPages(supabase, "past_paper_id", paperId));
+
+  const { error: deleteError } = await supabase.from("paper_questions").delete().eq("past_paper_id", paperId);
+  if (deleteError) throw deleteError;
+
+  if (questions.length > 0) {
+    const { error: insertError } = await supabase.from("paper_questions").insert(
+      questions.map((question) => ({
+        ...question,
+        user_id: paper.user_id,
+        past_paper_id: paperId,
+      }))
+    );
+    if (insertError) throw insertError;
+  }
+}
+
+async function storeSyllabusTree(supabase: SupabaseClient, syllabusId: string) {
+  const { data: syllabus, error: syllabusError } = await supabase
+    .from("syllabus")
+    .select("user_id, course_name")
+    .eq("id", syllabusId)
+    .single();
+  if (syllabusError) throw syllabusError;
+
+  const tree = parseSyllabus(await loadPages(supabase, "syllabus_id", syllabusId));
+  const userId = syllabus.user_id;
+
+  // Units cascade to their topics, so this clears any earlier parse
+  const { error: deleteError } = await supabase.from("syllabus_units").delete().eq("syllabus_id", syllabusId);
+  if (deleteError) throw deleteError;
+
+  for (const [unitIndex, unit] of tree.units.entries()) {
+    const { data: unitRow, error: unitError } = await supabase
+      .from("syllabus_units")
+      .insert({
+        user_id: userId,
+        syllabus_id: syllabusId,
+        title: unit.title,
+        hours: unit.hours,
+        weightage: unit.weightage,
+        position: unitIndex,
+      })
+      .select("id")
+      .single();
+    if (unitError) throw unitError;
+
+    for (const [topicIndex, topic] of unit.topics.entries()) {
+      const { data: topicRow, error: topicError } = await supabase
+        .from("syllabus_topics")
+        .insert({ user_id: userId, unit_id: unitRow.id, title: topic.title, position: topicIndex })
+        .select("id")
+        .single();
+      if (topicError) throw topicError;
+
+      if (topic.subtopics.length > 0) {
+        const { error: subtopicError } = await supabase.from("syllabus_topics").insert(
+          topic.subtopics.map((title, subtopicIndex) => ({
+            user_id: userId,
+            unit_id: unitRow.id,
+            parent_id: topicRow.id,
+            title,
+            position: subtopicIndex,
+          }))
+        );
+        if (subtopicError) throw subtopicError;
+      }
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from("syllabus")
+    .update({
+      course_name: syllabus.course_name ?? tree.course_name,
+      tree_status: "needs_review",
+    })
+    .eq("id", syllabusId);
+  if (updateError) throw updateError;
+}
@@ -0,0 +1,20 @@
+// Uploaded documents live in one table per category, each backed by its own bucket.
+export const DOCUMENT_TABLES = {
+  syllabus: { bucket: "syllabus", pageForeignKey: "syllabus_id" },
+  past_papers: { bucket: "past-papers", pageForeignKey: "past_paper_id" },
+} as const;
+
+export type DocumentTable = keyof typeof DOCUMENT_TABLES;
+
+export function isDocumentTable(value: unknown): value is DocumentTable {
+  return typeof value === "string" && value in DOCUMENT_TABLES;
+}
+
+// Keep in step with src/lib/fileValidation.ts and the bucket limits
+export const MAX_PDF_PAGES = 300;
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+
+export function isPdf(bytes: Uint8Array): boolean {
+  return PDF_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
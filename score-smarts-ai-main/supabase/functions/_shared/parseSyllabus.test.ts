@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseSyllabus } from "./parseSyllabus.ts";
+import { page } from "./testFixtures.ts";
+
+describe("parseSyllabus", () => {
+  it("reads the course name and unit headings with their hours and weightage", () => {
+    const syllabus = parseSyllabus([
+      page(
+        [
+          "Course Title: Data Structures",
+          "Objectives: learn to reason about data",
+          "UNIT I: Linear Structures (8 Hours)",
+          "Stacks, queues and linked lists.",
+          "Unit 2 - Trees [10 hrs] 25%",
+          "Binary trees.",
+        ].join("\n")
+      ),
+    ]);
+
+    expect(syllabus.course_name).toBe("Data Structures");
+    expect(syllabus.units.map(({ title, hours, weightage }) => ({ title, hours, weightage }))).toEqual([
+      { title: "Linear Structures", hours: 8, weightage: null },
+      { title: "Trees", hours: 10, weightage: 25 },
+    ]);
+  });
+
+  it("falls back to the first line for the course and to the unit number for the title", () => {
+    const syllabus = parseSyllabus([page("Operating Systems\nModule III\nDeadlocks.")]);
+
+    expect(syllabus.course_name).toBe("Operating Systems");
+    expect(syllabus.units[0].title).toBe("Unit III");
+  });
+
+  it("splits prose into topics on sentences, commas and a final and", () => {
+    const [unit] = parseSyllabus([page("Unit 1: Basics\nArrays, strings and pointers. Recursion.")]).units;
+
+    expect(unit.topics.map((topic) => topic.title)).toEqual(["Arrays", "strings", "pointers", "Recursion"]);
+  });
+
+  it("turns Topic: a, b lines into a topic with subtopics", () => {
+    const [unit] = parseSyllabus([page("Unit 1: Trees\nTraversals: inorder, preorder, postorder")]).units;
+
+    expect(unit.topics).toEqual([{ title: "Traversals", subtopics: ["inorder", "preorder", "postorder"] }]);
+  });
+
+  it("reads bullets and nests three-level numbering as subtopics", () => {
+    const [unit] = parseSyllabus([
+      page(["Unit 1: Graphs", "- Representations", "1.1 Traversals", "1.1.1 Breadth-first search", "1.1.2 Depth-first search"].join("\n")),
+    ]).units;
+
+    expect(unit.topics).toEqual([
+      { title: "Representations", subtopics: [] },
+      { title: "Traversals", subtopics: ["Breadth-first search", "Depth-first search"] },
+    ]);
+  });
+
+  it("ignores Markdown heading and emphasis markers", () => {
+    const syllabus = parseSyllabus([page("# **Networks**\n## Unit 1: Layers\n- **OSI model**")]);
+
+    expect(syllabus.course_name).toBe("Networks");
+    expect(syllabus.units).toEqual([
+      { title: "Layers", hours: null, weightage: null, topics: [{ title: "OSI model", subtopics: [] }] },
+    ]);
+  });
+
+  it("reads pages in page order", () => {
+    const syllabus = parseSyllabus([page("Unit 2: Second", 2), page("Course: Physics\nUnit 1: First", 1)]);
+
+    expect(syllabus.units.map((unit) => unit.title)).toEqual(["First", "Second"]);
+  });
+});
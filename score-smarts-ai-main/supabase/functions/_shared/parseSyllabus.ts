@@ -0,0 +1,153 @@
+// Turns extracted syllabus text into a course → unit → topic → subtopic tree.
+// Unit headings ("UNIT II: Trees (8 Hours)") start a new unit; the unit body
+// is split into topics on bullets, numbering, sentences and commas, and
+// "Topic: a, b, c" lines become a topic with subtopics. Markdown heading and
+// emphasis markers from imported Word/Markdown files are ignored.
+
+import type { PageText } from "./segmentQuestions.ts";
+
+export interface ParsedTopic {
+  title: string;
+  subtopics: string[];
+}
+
+export interface ParsedUnit {
+  title: string;
+  hours: number | null;
+  weightage: number | null;
+  topics: ParsedTopic[];
+}
+
+export interface ParsedSyllabus {
+  course_name: string | null;
+  units: ParsedUnit[];
+}
+
+const COURSE_PATTERN = /^(?:course\s*(?:title|name)|subject(?:\s*name)?|paper)\s*[:-]\s*(.+)$/i;
+const UNIT_PATTERN = /^(?:unit|module|chapter)\s*[-–:]?\s*([ivx]+|\d{1,2})\b\s*[-–:.)]?\s*(.*)$/i;
+const HOURS_PATTERN = /[([]?\s*(\d{1,3})\s*(?:hours?|hrs?|lectures?|periods?)\s*[)\]]?/i;
+const WEIGHTAGE_PATTERN = /[([]?\s*(?:weightage\s*[:-]?\s*)?(\d{1,3})\s*%\s*[)\]]?/i;
+const BULLET_PATTERN = /^(?:[-•*▪●◦]|\d+(?:\.\d+)*[.)]?)\s+/;
+const SUBTOPIC_NUMBER_PATTERN = /^\d+\.\d+\.\d+/;
+const MARKDOWN_HEADING_PATTERN = /^#{1,6}\s+/;
+const MARKDOWN_EMPHASIS_PATTERN = /\*\*|__/g;
+
+const MAX_TITLE_LENGTH = 120;
+
+const clean = (text: string) =>
+  text.replace(/\s+/g, " ").replace(/^[\s,;:.–-]+|[\s,;:.–-]+$/g, "").trim();
+
+function splitList(text: string): string[] {
+  return text
+    .split(/,|\band\b(?=[^,]*$)/i)
+    .map(clean)
+    .filter((item) => item.length > 1 && item.length <= MAX_TITLE_LENGTH);
+}
+
+function parseUnitHeading(rest: string, number: string) {
+  let title = rest;
+  let hours: number | null = null;
+  let weightage: number | null = null;
+
+  const hoursMatch = title.match(HOURS_PATTERN);
+  if (hoursMatch) {
+    hours = Number(hoursMatch[1]);
+    title = title.replace(hoursMatch[0], " ");
+  }
+
+  const weightageMatch = title.match(WEIGHTAGE_PATTERN);
+  if (weightageMatch) {
+    weightage = Number(weightageMatch[1]);
+    title = title.replace(weightageMatch[0], " ");
+  }
+
+  return { title: clean(title) || `Unit ${number.toUpperCase()}`, hours, weightage };
+}
+
+function parseUnitBody(lines: string[]): ParsedTopic[] {
+  const topics: ParsedTopic[] = [];
+
+  const addSegment = (segment: string) => {
+    const colon = segment.indexOf(":");
+    if (colon > 0) {
+      const title = clean(segment.slice(0, colon));
+      if (title && title.length <= MAX_TITLE_LENGTH) {
+        topics.push({ title, subtopics: splitList(segment.slice(colon + 1)) });
+        return;
+      }
+    }
+    splitList(segment).forEach((title) => topics.push({ title, subtopics: [] }));
+  };
+
+  let prose = "";
+  const flushProse = () => {
+    prose
+      .split(/[;.](?=\s|$)/)
+      .map(clean)
+      .filter(Boolean)
+      .forEach(addSegment);
+    prose = "";
+  };
+
+  for (const line of lines) {
+    if (BULLET_PATTERN.test(line)) {
+      flushProse();
+      const text = clean(line.replace(BULLET_PATTERN, ""));
+      if (!text) continue;
+      const previous = topics[topics.length - 1];
+      if (SUBTOPIC_NUMBER_PATTERN.test(line) && previous) {
+        previous.subtopics.push(text);
+      } else {
+        addSegment(text);
+      }
+    } else {
+      prose += ` ${line}`;
+    }
+  }
+  flushProse();
+
+  return topics;
+}
+
+export function parseSyllabus(pages: PageText[]): ParsedSyllabus {
+  let courseName: string | null = null;
+  const units: ParsedUnit[] = [];
+  let unitLines: string[] = [];
+  let firstLine: string | null = null;
+
+  const finishUnit = () => {
+    const unit = units[units.length - 1];
+    if (unit) unit.topics = parseUnitBody(unitLines);
+    unitLines = [];
+  };
+
+  for (const page of [...pages].sort((a, b) => a.page_number - b.page_number)) {
+    for (const rawLine of page.content.split(/\r?\n/)) {
+      const line = rawLine.replace(MARKDOWN_EMPHASIS_PATTERN, "").trim().replace(MARKDOWN_HEADING_PATTERN, "");
+      if (!line) continue;
+      firstLine ??= line;
+
+      const courseMatch = line.match(COURSE_PATTERN);
+      if (courseMatch && !courseName) {
+        courseName = clean(courseMatch[1]);
+        continue;
+      }
+
+      const unitMatch = line.match(UNIT_PATTERN);
+      if (unitMatch) {
+        finishUnit();
+        units.push({ ...parseUnitHeading(unitMatch[2], unitMatch[1]), topics: [] });
+        continue;
+      }
+
+      // Text before the first unit is front matter (objectives, credits, ...)
+      if (units.length > 0) unitLines.push(line);
+    }
+  }
+  finishUnit();
+
+  return {
+    course_name: courseName ?? (firstLine && firstLine.length <= MAX_TITLE_LENGTH ? clean(firstLine) : null),
+    units,
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { segmentQuestions } from "./segmentQuestions.ts";
+import { page } from "./testFixtures.ts";
+
+describe("segmentQuestions", () => {
+  it("splits numbered questions and reads their marks", () => {
+    const questions = segmentQuestions([
+      page(["Answer all questions.", "1. Define a stack. (5 marks)", "2) Explain recursion [10]", "Q3 What is a heap? 2 m"].join("\n")),
+    ]);
+
+    expect(questions.map(({ question_number, marks, text }) => ({ question_number, marks, text }))).toEqual([
+      { question_number: "1", marks: 5, text: "Define a stack." },
+      { question_number: "2", marks: 10, text: "Explain recursion" },
+      { question_number: "3", marks: 2, text: "What is a heap?" },
+    ]);
+  });
+
+  it("reads half marks and leaves questions without marks at null", () => {
+    const [half, none] = segmentQuestions([page("1. State Ohm's law (2.5)\n2. Derive the formula")]);
+
+    expect(half.marks).toBe(2.5);
+    expect(none.marks).toBeNull();
+  });
+
+  it("gives the question's lead-in text to its first sub-part", () => {
+    const questions = segmentQuestions([
+      page(["1. Consider a binary tree.", "(a) Define its height. (2)", "(b) Write an inorder traversal. (4)"].join("\n")),
+    ]);
+
+    expect(questions).toHaveLength(2);
+    expect(questions[0]).toMatchObject({
+      question_number: "1",
+      sub_part: "a",
+      marks: 2,
+      text: "Consider a binary tree. Define its height.",
+    });
+    expect(questions[1]).toMatchObject({ question_number: "1", sub_part: "b", marks: 4 });
+  });
+
+  it("reads a sub-part on the question's own line and roman sub-parts", () => {
+    const questions = segmentQuestions([page("Q2 (a) Define entropy.\n(ii) State the second law.")]);
+
+    expect(questions.map((question) => [question.question_number, question.sub_part])).toEqual([
+      ["2", "a"],
+      ["2", "ii"],
+    ]);
+  });
+
+  it("groups OR alternatives between sub-parts and between whole questions", () => {
+    const questions = segmentQuestions([
+      page(["1. (a) Explain TCP.", "OR", "(b) Explain UDP.", "2. Describe routing.", "(OR)", "3. Describe switching."].join("\n")),
+    ]);
+
+    expect(questions.map((question) => question.choice_group)).toEqual(["1(a)", "1(a)", "2", "2"]);
+  });
+
+  it("tracks sections, keeps page order and numbers positions", () => {
+    const questions = segmentQuestions([
+      page("Section B\n3. Second page question", 2),
+      page("Section A\n1. First page question", 1),
+    ]);
+
+    expect(questions.map(({ section, page_number, position }) => ({ section, page_number, position }))).toEqual([
+      { section: "A", page_number: 1, position: 0 },
+      { section: "B", page_number: 2, position: 1 },
+    ]);
+  });
+
+  it("continues a question across lines and drops text before the first question", () => {
+    const [question] = segmentQuestions([page("Time: 3 hours\n1. Explain the\nOSI model. (8 marks)")]);
+
+    expect(question.text).toBe("Explain the OSI model.");
+    expect(question.marks).toBe(8);
+  });
+});
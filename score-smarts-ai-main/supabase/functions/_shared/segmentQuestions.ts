@@ -0,0 +1,150 @@
+// Splits extracted past-paper text into individual questions. Works line by
+// line over the pages, tracking the current section, question and sub-part,
+// and linking "OR" alternatives into choice groups.
+
+export interface PageText {
+  page_number: number;
+  content: string;
+}
+
+export interface SegmentedQuestion {
+  question_number: string;
+  sub_part: string | null;
+  section: string | null;
+  marks: number | null;
+  choice_group: string | null;
+  text: string;
+  page_number: number;
+  position: number;
+}
+
+const SECTION_PATTERN = /^(?:section|part)\s*[-–:]?\s*([a-e]|i{1,3}|iv|v)\b/i;
+const OR_PATTERN = /^[-–(\s]*or[-–)\s]*$/i;
+const QUESTION_PATTERN =
+  /^(?:q(?:uestion)?\s*\.?\s*(?:no\.?\s*)?(\d{1,2})\s*[.):-]?|(\d{1,2})\s*[.)](?!\d))\s*(?:\(?([a-h]|i{1,3}|iv|vi{0,3}|ix|x)\))?\s*(.*)$/i;
+const SUB_PART_PATTERN = /^(?:\(([a-h]|i{1,3}|iv|vi{0,3}|ix|x)\)|([a-h])[.)])\s+(.*)$/i;
+const MARKS_PATTERN = /[[(]\s*(\d{1,2}(?:\.5)?)\s*(?:marks?|m)?\s*[\])]\s*$|\b(\d{1,2}(?:\.5)?)\s*(?:marks?|m)\s*$/i;
+
+interface Draft {
+  question_number: string;
+  sub_part: string | null;
+  section: string | null;
+  choice_group: string | null;
+  lines: string[];
+  page_number: number;
+}
+
+const label = (draft: Draft) =>
+  draft.sub_part ? `${draft.question_number}(${draft.sub_part})` : draft.question_number;
+
+function extractMarks(text: string): { text: string; marks: number | null } {
+  const match = text.match(MARKS_PATTERN);
+  if (!match) return { text, marks: null };
+  return {
+    text: text.slice(0, match.index).trim(),
+    marks: Number(match[1] ?? match[2]),
+  };
+}
+
+export function segmentQuestions(pages: PageText[]): SegmentedQuestion[] {
+  const drafts: Draft[] = [];
+  let section: string | null = null;
+  let current: Draft | null = null;
+  let stem: Draft | null = null;
+  let pendingOr = false;
+  // "OR" between whole questions groups every sub-part of both questions
+  const questionGroups = new Map<string, string>();
+
+  const startDraft = (draft: Draft) => {
+    const previous = current;
+    if (pendingOr && previous) {
+      if (draft.sub_part !== null && draft.question_number === previous.question_number) {
+        previous.choice_group = previous.choice_group ?? label(previous);
+        draft.choice_group = previous.choice_group;
+      } else {
+        const group = questionGroups.get(previous.question_number) ?? previous.question_number;
+        questionGroups.set(previous.question_number, group);
+        questionGroups.set(draft.question_number, group);
+      }
+    }
+    pendingOr = false;
+    drafts.push(draft);
+    current = draft;
+  };
+
+  for (const page of [...pages].sort((a, b) => a.page_number - b.page_number)) {
+    for (const rawLine of page.content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const sectionMatch = line.match(SECTION_PATTERN);
+      if (sectionMatch && line.length < 60) {
+        section = sectionMatch[1].toUpperCase();
+        continue;
+      }
+
+      if (OR_PATTERN.test(line)) {
+        pendingOr = true;
+        continue;
+      }
+
+      const questionMatch = line.match(QUESTION_PATTERN);
+      if (questionMatch) {
+        const questionNumber = questionMatch[1] ?? questionMatch[2];
+        const subPart = questionMatch[3]?.toLowerCase() ?? null;
+        const draft: Draft = {
+          question_number: questionNumber,
+          sub_part: subPart,
+          section,
+          choice_group: null,
+          lines: [questionMatch[4]],
+          page_number: page.page_number,
+        };
+        stem = subPart ? null : draft;
+        startDraft(draft);
+        continue;
+      }
+
+      const subPartMatch = current ? line.match(SUB_PART_PATTERN) : null;
+      if (subPartMatch && current) {
+        const draft: Draft = {
+          question_number: current.question_number,
+          sub_part: (subPartMatch[1] ?? subPartMatch[2]).toLowerCase(),
+          section: current.section,
+          choice_group: null,
+          lines: [subPartMatch[3]],
+          page_number: page.page_number,
+        };
+        // A question's lead-in text belongs with its first sub-part
+        if (stem && stem === current && stem.question_number === draft.question_number) {
+          drafts.pop();
+          draft.lines.unshift(...stem.lines.filter(Boolean));
+          current = drafts[drafts.length - 1] ?? null;
+        }
+        stem = null;
+        startDraft(draft);
+        continue;
+      }
+
+      // Text before the first question (instructions, headers) is dropped
+      current?.lines.push(line);
+    }
+  }
+
+  return drafts
+    .map((draft) => {
+      const { text, marks } = extractMarks(draft.lines.join(" ").replace(/\s+/g, " ").trim());
+      return { draft, text, marks };
+    })
+    .filter(({ text }) => text.length > 0)
+    .map(({ draft, text, marks }, position) => ({
+      question_number: draft.question_number,
+      sub_part: draft.sub_part,
+      section: draft.section,
+      marks,
+      choice_group: draft.choice_group ?? questionGroups.get(draft.question_number) ?? null,
+      text,
+      page_number: draft.page_number,
+      position,
+    }));
+}
@@ -0,0 +1,9 @@
+/**
+ * Whether the request carries the service-role key, as the database triggers
+ * and pg_cron jobs send it. Functions that act with the service role on
+ * behalf of no particular user accept nothing else.
+ */
+export function isServiceRoleRequest(req: Request): boolean {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  return token !== "" && token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+}
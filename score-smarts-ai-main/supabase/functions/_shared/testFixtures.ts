@@ -0,0 +1,4 @@
+import type { PageText } from "./segmentQuestions.ts";
+
+/** One page of extracted text, for the parser tests. */
+export const page = (content: string, page_number = 1): PageText => ({ page_number, content });
@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { isDocumentTable } from "../_shared/documents.ts";
+import { analyzeDocument } from "../_shared/analyzeDocument.ts";
+
+// Called by the browser after it stores text it extracted itself (OCR), so the
+// document gets the same structural analysis as server-extracted PDFs.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { table, id } = await req.json();
+
+    if (!isDocumentTable(table) || !id) {
+      return jsonResponse({ error: "A valid table and id are required" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: document } = await supabase
+      .from(table)
+      .select("id")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (!document) {
+      return jsonResponse({ error: "Document not found" }, 404);
+    }
+
+    await analyzeDocument(supabase, table, id);
+
+    return jsonResponse({ ok: true });
+  } catch (error) {
+    console.error("analyze-document error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,10 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+// Keeps the syllabus and note excerpts from crowding out the question
+const MAX_SYLLABUS_CHARS = 6000;
+const MAX_NOTES_CHARS = 6000;
+const MAX_NOTES = 10;
+
+const truncate = (text: string, limit: number) =>
+  text.length > limit ? `${text.slice(0, limit)}\n[...]` : text;
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -12,7 +16,7 @@ serve(async (req) => {
   }
 
   try {
-    const { question, userId } = await req.json();
+    const { question } = await req.json();
     
     if (!question) {
       return new Response(JSON.stringify({ error: "Question is required" }), {
@@ -31,14 +35,22 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // The materials are read as the service role, so whose they are must come
+    // from the caller's token; signed-out visitors get answers without them
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    const userId = user?.id;
+
     // Fetch user's syllabus and past papers for context
     let syllabusContext = "";
     let papersContext = "";
+    let syllabusText = "";
+    let notesText = "";
 
     if (userId) {
       const { data: syllabus } = await supabase
         .from("syllabus")
-        .select("title, file_url")
+        .select("title")
         .eq("user_id", userId);
       
       if (syllabus && syllabus.length > 0) {
@@ -53,6 +65,32 @@ serve(async (req) => {
       if (papers && papers.length > 0) {
         papersContext = `User has uploaded ${papers.length} past paper(s) from years: ${[...new Set(papers.map(p => p.year))].join(", ")}`;
       }
+
+      const { data: syllabusPages } = await supabase
+        .from("document_pages")
+        .select("content")
+        .eq("user_id", userId)
+        .not("syllabus_id", "is", null)
+        .order("syllabus_id")
+        .order("page_number");
+
+      if (syllabusPages && syllabusPages.length > 0) {
+        syllabusText = truncate(syllabusPages.map((page) => page.content).join("\n\n"), MAX_SYLLABUS_CHARS);
+      }
+
+      const { data: notes } = await supabase
+        .from("study_notes")
+        .select("title, content")
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false })
+        .limit(MAX_NOTES);
+
+      if (notes && notes.length > 0) {
+        notesText = truncate(
+          notes.map((note) => `## ${note.title}\n${note.content}`).join("\n\n"),
+          MAX_NOTES_CHARS
+        );
+      }
     }
 
     const systemPrompt = `You are EngiGenius AI, an expert study assistant for engineering students. Your role is to:
@@ -64,6 +102,7 @@ serve(async (req) => {
 Context about user's materials:
 ${syllabusContext || "No syllabus uploaded yet"}
 ${papersContext || "No past papers uploaded yet"}
+${syllabusText ? `\nSyllabus text:\n${syllabusText}\n` : ""}${notesText ? `\nUser's study notes (prefer their wording and examples where relevant):\n${notesText}\n` : ""}
 
 IMPORTANT: 
 - Format your answers clearly with headings, bullet points, and numbered lists
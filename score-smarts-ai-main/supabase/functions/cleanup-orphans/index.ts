@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { isServiceRoleRequest } from "../_shared/serviceRole.ts";
+
+// Storage removes are batched to stay well under the API's request size limits
+const REMOVE_BATCH_SIZE = 100;
+
+// Invoked nightly by pg_cron. Reconciles the upload buckets against the
+// `syllabus` and `past_papers` rows: objects nothing points at are removed,
+// and rows whose object has disappeared are marked failed so they show up in
+// My Files for the student to delete or re-upload. Only the cron job may call
+// it, with the service-role key.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  try {
+    const { data: orphans, error: orphansError } = await supabase.rpc("find_orphaned_uploads");
+    if (orphansError) throw orphansError;
+
+    const pathsByBucket = new Map<string, string[]>();
+    for (const { bucket_id, name } of orphans as { bucket_id: string; name: string }[]) {
+      pathsByBucket.set(bucket_id, [...(pathsByBucket.get(bucket_id) ?? []), name]);
+    }
+
+    for (const [bucket, paths] of pathsByBucket) {
+      for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+        const { error } = await supabase.storage.from(bucket).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+        if (error) throw error;
+      }
+    }
+
+    const { data: missing, error: missingError } = await supabase.rpc("find_uploads_missing_objects");
+    if (missingError) throw missingError;
+
+    for (const table of ["syllabus", "past_papers"]) {
+      const ids = (missing as { table_name: string; id: string }[])
+        .filter((row) => row.table_name === table)
+        .map((row) => row.id);
+      if (ids.length === 0) continue;
+
+      const { error } = await supabase
+        .from(table)
+        .update({ extraction_status: "failed", extraction_error: "The uploaded file is missing from storage" })
+        .in("id", ids);
+      if (error) throw error;
+    }
+
+    console.log(`cleanup-orphans: removed ${orphans.length} object(s), flagged ${missing.length} row(s)`);
+    return jsonResponse({ removedObjects: orphans.length, flaggedRows: missing.length });
+  } catch (error) {
+    console.error("cleanup-orphans error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,109 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { DOCUMENT_TABLES, MAX_PDF_PAGES, isDocumentTable, isPdf } from "../_shared/documents.ts";
+import { analyzeDocument } from "../_shared/analyzeDocument.ts";
+import { isServiceRoleRequest } from "../_shared/serviceRole.ts";
+
+// Invoked by the after-insert triggers on `syllabus` and `past_papers`.
+// Downloads the uploaded object, extracts its text page by page into
+// `document_pages`, runs structural analysis on it and records the outcome in
+// `extraction_status`. Only the triggers may call it, with the service-role key.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  let table: string | undefined;
+  let id: string | undefined;
+
+  try {
+    ({ table, id } = await req.json());
+
+    if (!isDocumentTable(table) || !id) {
+      return jsonResponse({ error: "A valid table and id are required" }, 400);
+    }
+
+    const { bucket, pageForeignKey } = DOCUMENT_TABLES[table];
+
+    const { data: document, error: fetchError } = await supabase
+      .from(table)
+      .select("id, user_id, storage_path")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!document) {
+      return jsonResponse({ error: "Document not found" }, 404);
+    }
+
+    await supabase
+      .from(table)
+      .update({ extraction_status: "processing", extraction_error: null })
+      .eq("id", id);
+
+    const { data: blob, error: downloadError } = await supabase.storage.from(bucket).download(document.storage_path);
+    if (downloadError) throw downloadError;
+
+    // Checked on the bytes, not the name, so a renamed file never reaches analysis
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (!isPdf(bytes)) {
+      throw new Error("Text extraction is only supported for PDF files");
+    }
+
+    const pdf = await getDocumentProxy(bytes).catch((error) => {
+      throw new Error(
+        error?.name === "PasswordException" ? "The PDF is password-protected" : "The PDF is damaged and cannot be read"
+      );
+    });
+    if (pdf.numPages > MAX_PDF_PAGES) {
+      throw new Error(`The PDF has ${pdf.numPages} pages; the limit is ${MAX_PDF_PAGES}`);
+    }
+    const { text } = await extractText(pdf, { mergePages: false });
+    const pages = (text as string[]).map((content, index) => ({
+      user_id: document.user_id,
+      [pageForeignKey]: id,
+      page_number: index + 1,
+      content: content.trim(),
+    }));
+
+    // Re-running extraction replaces whatever was stored before
+    const { error: deleteError } = await supabase.from("document_pages").delete().eq(pageForeignKey, id);
+    if (deleteError) throw deleteError;
+
+    if (pages.length > 0) {
+      const { error: insertError } = await supabase.from("document_pages").insert(pages);
+      if (insertError) throw insertError;
+    }
+
+    await analyzeDocument(supabase, table, id);
+
+    await supabase
+      .from(table)
+      .update({ extraction_status: "completed", extracted_at: new Date().toISOString() })
+      .eq("id", id);
+
+    return jsonResponse({ pages: pages.length });
+  } catch (error) {
+    console.error("extract-document error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (isDocumentTable(table) && id) {
+      await supabase
+        .from(table)
+        .update({ extraction_status: "failed", extraction_error: message })
+        .eq("id", id);
+    }
+
+    return jsonResponse({ error: message }, 500);
+  }
+});
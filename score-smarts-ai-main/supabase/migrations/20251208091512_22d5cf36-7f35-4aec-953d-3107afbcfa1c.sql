@@ -0,0 +1,65 @@
+-- Text extraction pipeline for uploaded documents
+
+-- Extraction status on uploaded documents
+ALTER TABLE public.syllabus
+  ADD COLUMN extraction_status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN extraction_error TEXT,
+  ADD COLUMN extracted_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT syllabus_extraction_status_check
+    CHECK (extraction_status IN ('pending', 'processing', 'completed', 'failed'));
+
+ALTER TABLE public.past_papers
+  ADD COLUMN extraction_status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN extraction_error TEXT,
+  ADD COLUMN extracted_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT past_papers_extraction_status_check
+    CHECK (extraction_status IN ('pending', 'processing', 'completed', 'failed'));
+
+-- Extracted text, one row per page of a syllabus or past paper
+CREATE TABLE public.document_pages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  syllabus_id UUID REFERENCES public.syllabus(id) ON DELETE CASCADE,
+  past_paper_id UUID REFERENCES public.past_papers(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT document_pages_single_source CHECK (num_nonnulls(syllabus_id, past_paper_id) = 1),
+  CONSTRAINT document_pages_syllabus_page_key UNIQUE (syllabus_id, page_number),
+  CONSTRAINT document_pages_past_paper_page_key UNIQUE (past_paper_id, page_number)
+);
+
+CREATE INDEX document_pages_user_id_idx ON public.document_pages (user_id);
+
+ALTER TABLE public.document_pages ENABLE ROW LEVEL SECURITY;
+
+-- Pages are written by the extract-document function using the service role
+CREATE POLICY "Users can view own document_pages" ON public.document_pages FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own document_pages" ON public.document_pages FOR DELETE USING (auth.uid() = user_id);
+
+-- Call the extract-document function whenever a document is inserted
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.request_document_extraction()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := 'https://bwheyehinfhqmkmmfwhx.supabase.co/functions/v1/extract-document',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := jsonb_build_object('table', TG_TABLE_NAME, 'id', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER extract_syllabus_after_insert
+  AFTER INSERT ON public.syllabus
+  FOR EACH ROW
+  WHEN (NEW.extraction_status = 'pending')
+  EXECUTE FUNCTION public.request_document_extraction();
+
+CREATE TRIGGER extract_past_papers_after_insert
+  AFTER INSERT ON public.past_papers
+  FOR EACH ROW
+  WHEN (NEW.extraction_status = 'pending')
+  EXECUTE FUNCTION public.request_document_extraction();
@@ -0,0 +1,10 @@
+-- OCR for photographed question papers
+
+-- Record where each page's text came from and, for OCR, how confident the engine was
+ALTER TABLE public.document_pages
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'pdf_text',
+  ADD COLUMN confidence NUMERIC,
+  ADD CONSTRAINT document_pages_source_check CHECK (source IN ('pdf_text', 'ocr'));
+
+-- OCR runs in the browser, so users write their own recognised pages
+CREATE POLICY "Users can insert own document_pages" ON public.document_pages FOR INSERT WITH CHECK (auth.uid() = user_id);
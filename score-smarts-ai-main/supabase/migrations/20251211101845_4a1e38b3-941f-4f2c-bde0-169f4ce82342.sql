@@ -0,0 +1,25 @@
+-- Past papers segmented into individual questions
+CREATE TABLE public.paper_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  past_paper_id UUID NOT NULL REFERENCES public.past_papers(id) ON DELETE CASCADE,
+  question_number TEXT NOT NULL,
+  sub_part TEXT,
+  section TEXT,
+  marks NUMERIC,
+  -- Questions sharing a choice_group are "OR" alternatives of each other
+  choice_group TEXT,
+  text TEXT NOT NULL,
+  page_number INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX paper_questions_past_paper_id_idx ON public.paper_questions (past_paper_id);
+CREATE INDEX paper_questions_user_id_idx ON public.paper_questions (user_id);
+
+ALTER TABLE public.paper_questions ENABLE ROW LEVEL SECURITY;
+
+-- Questions are written by the segmentation step using the service role
+CREATE POLICY "Users can view own paper_questions" ON public.paper_questions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own paper_questions" ON public.paper_questions FOR DELETE USING (auth.uid() = user_id);
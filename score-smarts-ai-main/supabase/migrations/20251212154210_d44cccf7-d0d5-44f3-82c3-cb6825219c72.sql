@@ -0,0 +1,48 @@
+-- Syllabus parsed into a course → unit → topic → subtopic tree
+
+-- The parsed tree must be reviewed by the user before analysis relies on it
+ALTER TABLE public.syllabus
+  ADD COLUMN course_name TEXT,
+  ADD COLUMN tree_status TEXT NOT NULL DEFAULT 'pending',
+  ADD CONSTRAINT syllabus_tree_status_check
+    CHECK (tree_status IN ('pending', 'needs_review', 'confirmed'));
+
+CREATE TABLE public.syllabus_units (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  syllabus_id UUID NOT NULL REFERENCES public.syllabus(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  hours NUMERIC,
+  weightage NUMERIC,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Topics with a parent_id are subtopics of that topic
+CREATE TABLE public.syllabus_topics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.syllabus_units(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.syllabus_topics(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX syllabus_units_syllabus_id_idx ON public.syllabus_units (syllabus_id);
+CREATE INDEX syllabus_topics_unit_id_idx ON public.syllabus_topics (unit_id);
+
+ALTER TABLE public.syllabus_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.syllabus_topics ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for syllabus_units
+CREATE POLICY "Users can view own syllabus_units" ON public.syllabus_units FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own syllabus_units" ON public.syllabus_units FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own syllabus_units" ON public.syllabus_units FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own syllabus_units" ON public.syllabus_units FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policies for syllabus_topics
+CREATE POLICY "Users can view own syllabus_topics" ON public.syllabus_topics FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own syllabus_topics" ON public.syllabus_topics FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own syllabus_topics" ON public.syllabus_topics FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own syllabus_topics" ON public.syllabus_topics FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Explicit exam metadata for past papers, entered per file on upload
+ALTER TABLE public.past_papers
+  ADD COLUMN exam_session TEXT,
+  ADD COLUMN paper_type TEXT NOT NULL DEFAULT 'regular',
+  ADD COLUMN max_marks NUMERIC,
+  ADD COLUMN duration_minutes INTEGER,
+  ADD COLUMN university TEXT,
+  ADD COLUMN course_code TEXT,
+  ADD CONSTRAINT past_papers_paper_type_check CHECK (paper_type IN ('regular', 'supplementary'));
@@ -0,0 +1,29 @@
+-- Both buckets are private, so the public URLs stored at upload time never
+-- resolved. Store the object path instead; clients request short-lived
+-- signed URLs when they need to open a file.
+CREATE FUNCTION pg_temp.url_decode(input TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT convert_from(
+    string_agg(
+      CASE WHEN match[1] IS NOT NULL THEN decode(substr(match[1], 2), 'hex') ELSE convert_to(match[2], 'UTF8') END,
+      ''::bytea
+      ORDER BY ordinal
+    ),
+    'UTF8'
+  )
+  FROM regexp_matches(input, '(%[0-9A-Fa-f]{2})|([^%]+|%)', 'g') WITH ORDINALITY AS matches(match, ordinal);
+$$;
+
+ALTER TABLE public.syllabus RENAME COLUMN file_url TO storage_path;
+ALTER TABLE public.past_papers RENAME COLUMN file_url TO storage_path;
+
+UPDATE public.syllabus
+SET storage_path = pg_temp.url_decode(substring(storage_path FROM '/object/public/syllabus/([^?]+)'))
+WHERE storage_path LIKE '%/object/public/syllabus/%';
+
+UPDATE public.past_papers
+SET storage_path = pg_temp.url_decode(substring(storage_path FROM '/object/public/past-papers/([^?]+)'))
+WHERE storage_path LIKE '%/object/public/past-papers/%';
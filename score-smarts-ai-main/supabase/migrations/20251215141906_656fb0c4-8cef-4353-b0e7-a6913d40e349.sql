@@ -0,0 +1,58 @@
+-- Reconciliation between the upload buckets and the rows that reference them.
+-- Both functions are only callable with the service role; the
+-- cleanup-orphans edge function uses them on a schedule.
+
+-- Objects with no syllabus/past_papers row pointing at them. Recent objects
+-- are skipped so an upload whose row is still being written is not touched.
+CREATE OR REPLACE FUNCTION public.find_orphaned_uploads(min_age INTERVAL DEFAULT INTERVAL '1 hour')
+RETURNS TABLE (bucket_id TEXT, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.created_at < now() - min_age
+    AND (
+      (o.bucket_id = 'syllabus' AND NOT EXISTS (SELECT 1 FROM public.syllabus s WHERE s.storage_path = o.name))
+      OR (o.bucket_id = 'past-papers' AND NOT EXISTS (SELECT 1 FROM public.past_papers p WHERE p.storage_path = o.name))
+    );
+$$;
+
+-- Rows whose object no longer exists in their bucket
+CREATE OR REPLACE FUNCTION public.find_uploads_missing_objects()
+RETURNS TABLE (table_name TEXT, id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT 'syllabus', s.id
+  FROM public.syllabus s
+  WHERE s.extraction_status <> 'failed'
+    AND NOT EXISTS (SELECT 1 FROM storage.objects o WHERE o.bucket_id = 'syllabus' AND o.name = s.storage_path)
+  UNION ALL
+  SELECT 'past_papers', p.id
+  FROM public.past_papers p
+  WHERE p.extraction_status <> 'failed'
+    AND NOT EXISTS (SELECT 1 FROM storage.objects o WHERE o.bucket_id = 'past-papers' AND o.name = p.storage_path);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_orphaned_uploads(INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_uploads_missing_objects() FROM PUBLIC, anon, authenticated;
+
+-- Run the cleanup nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'cleanup-orphaned-uploads',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bwheyehinfhqmkmmfwhx.supabase.co/functions/v1/cleanup-orphans',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,7 @@
+-- SHA-256 of the uploaded file, so the same paper cannot be stored twice and
+-- counted twice in topic frequencies. Rows uploaded before this have no hash.
+ALTER TABLE public.syllabus ADD COLUMN content_hash TEXT;
+ALTER TABLE public.past_papers ADD COLUMN content_hash TEXT;
+
+CREATE UNIQUE INDEX syllabus_user_content_hash_key ON public.syllabus (user_id, content_hash) WHERE content_hash IS NOT NULL;
+CREATE UNIQUE INDEX past_papers_user_content_hash_key ON public.past_papers (user_id, content_hash) WHERE content_hash IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Server-side counterpart of the checks the Upload page runs before sending a
+-- file. Limits match src/lib/fileValidation.ts.
+UPDATE storage.buckets
+SET
+  file_size_limit = 104857600,
+  allowed_mime_types = ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+WHERE id = 'syllabus';
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 104857600,
+  allowed_mime_types = ARRAY['application/pdf', 'image/png', 'image/jpeg']
+WHERE id = 'past-papers';
@@ -0,0 +1,16 @@
+-- Word, Markdown and plain-text imports
+
+-- Their text is converted in the browser and stored like OCR output
+ALTER TABLE public.document_pages
+  DROP CONSTRAINT document_pages_source_check,
+  ADD CONSTRAINT document_pages_source_check CHECK (source IN ('pdf_text', 'ocr', 'document_text'));
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/markdown',
+  'text/plain'
+]
+WHERE id = 'syllabus';
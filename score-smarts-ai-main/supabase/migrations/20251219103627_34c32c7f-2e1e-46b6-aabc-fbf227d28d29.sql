@@ -0,0 +1,60 @@
+-- Topic frequency analysis: past-paper questions mapped to syllabus topics
+
+CREATE TABLE public.question_topics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.paper_questions(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES public.syllabus_topics(id) ON DELETE CASCADE,
+  -- Share of the topic's keywords found in the question, 0-1
+  score NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT question_topics_question_topic_key UNIQUE (question_id, topic_id)
+);
+
+CREATE INDEX question_topics_topic_id_idx ON public.question_topics (topic_id);
+CREATE INDEX question_topics_user_id_idx ON public.question_topics (user_id);
+
+ALTER TABLE public.question_topics ENABLE ROW LEVEL SECURITY;
+
+-- The analysis runs in the browser, so users write their own mappings
+CREATE POLICY "Users can view own question_topics" ON public.question_topics FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own question_topics" ON public.question_topics FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own question_topics" ON public.question_topics FOR DELETE USING (auth.uid() = user_id);
+
+-- Evidence behind each prediction. Rows from the analysis point at their
+-- syllabus topic; topics the AI mentions in answers have none.
+ALTER TABLE public.important_topics
+  ADD COLUMN syllabus_topic_id UUID REFERENCES public.syllabus_topics(id) ON DELETE CASCADE,
+  -- Questions asked on the topic per exam year, e.g. {"2021": 2, "2023": 1}
+  ADD COLUMN year_counts JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN papers_asked INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN papers_total INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN analyzed_at TIMESTAMP WITH TIME ZONE;
+
+-- Probabilities so far were random placeholders, not evidence
+UPDATE public.important_topics SET probability = NULL;
+
+-- One row per topic: fold repeated AI mentions into the oldest row before adding the key
+WITH ranked AS (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY user_id, subject, topic ORDER BY created_at, id) AS rank,
+    sum(coalesce(frequency, 1)) OVER (PARTITION BY user_id, subject, topic) AS mentions
+  FROM public.important_topics
+)
+UPDATE public.important_topics
+SET frequency = ranked.mentions
+FROM ranked
+WHERE important_topics.id = ranked.id AND ranked.rank = 1;
+
+DELETE FROM public.important_topics
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY user_id, subject, topic ORDER BY created_at, id) AS rank
+    FROM public.important_topics
+  ) ranked
+  WHERE rank > 1
+);
+
+ALTER TABLE public.important_topics
+  ADD CONSTRAINT important_topics_user_subject_topic_key UNIQUE (user_id, subject, topic);
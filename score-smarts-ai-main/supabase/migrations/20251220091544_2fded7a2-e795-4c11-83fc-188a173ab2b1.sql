@@ -0,0 +1,34 @@
+-- Tunable prediction model, one set of parameters per subject.
+-- Defaults match DEFAULT_PREDICTION_PARAMETERS in src/lib/predictionModel.ts.
+CREATE TABLE public.prediction_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  recency_half_life NUMERIC NOT NULL DEFAULT 3,
+  frequency_weight NUMERIC NOT NULL DEFAULT 0.6,
+  cycle_weight NUMERIC NOT NULL DEFAULT 0.25,
+  marks_weight NUMERIC NOT NULL DEFAULT 0.15,
+  min_cycle_appearances INTEGER NOT NULL DEFAULT 3,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT prediction_settings_user_subject_key UNIQUE (user_id, subject),
+  CONSTRAINT prediction_settings_half_life_check CHECK (recency_half_life > 0),
+  CONSTRAINT prediction_settings_weights_check
+    CHECK (frequency_weight >= 0 AND cycle_weight >= 0 AND marks_weight >= 0),
+  CONSTRAINT prediction_settings_min_cycle_check CHECK (min_cycle_appearances >= 2)
+);
+
+ALTER TABLE public.prediction_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own prediction_settings" ON public.prediction_settings FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own prediction_settings" ON public.prediction_settings FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own prediction_settings" ON public.prediction_settings FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own prediction_settings" ON public.prediction_settings FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_prediction_settings_updated_at
+  BEFORE UPDATE ON public.prediction_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Signals and parameters behind each analyzed probability, so it can be reproduced
+ALTER TABLE public.important_topics ADD COLUMN score_factors JSONB;
@@ -0,0 +1,24 @@
+-- Other wordings of a topic that resolve to one canonical important_topics row.
+-- alias_key is the normalized form built by topicKey() in src/lib/topicAliases.ts;
+-- mentions counts how often the AI used this wording, so a merge can be split again.
+CREATE TABLE public.topic_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES public.important_topics(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  alias TEXT NOT NULL,
+  alias_key TEXT NOT NULL,
+  mentions INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT topic_aliases_user_subject_key_key UNIQUE (user_id, subject, alias_key),
+  CONSTRAINT topic_aliases_mentions_check CHECK (mentions >= 0)
+);
+
+CREATE INDEX topic_aliases_topic_id_idx ON public.topic_aliases (topic_id);
+
+ALTER TABLE public.topic_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own topic_aliases" ON public.topic_aliases FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own topic_aliases" ON public.topic_aliases FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own topic_aliases" ON public.topic_aliases FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own topic_aliases" ON public.topic_aliases FOR DELETE USING (auth.uid() = user_id);
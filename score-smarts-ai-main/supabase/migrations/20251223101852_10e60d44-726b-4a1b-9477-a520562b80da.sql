@@ -0,0 +1,8 @@
+-- Manual curation of predicted topics. The override and pin are kept apart from
+-- the analyzed probability, so re-running the analysis never overwrites them.
+ALTER TABLE public.important_topics
+  ADD COLUMN probability_override NUMERIC,
+  ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN pin_note TEXT,
+  ADD CONSTRAINT important_topics_probability_override_check
+    CHECK (probability_override IS NULL OR (probability_override >= 0 AND probability_override <= 100));
@@ -0,0 +1,40 @@
+-- Latest backtest of the prediction model, one per subject: the most recent
+-- held_out papers are hidden, topics are predicted from the rest and the top k
+-- are compared with what the hidden papers actually asked.
+-- predicted holds the top k as [{ topic, probability, asked }], missed the
+-- names of asked topics outside it; marks_covered is null when no hidden
+-- question printed its marks.
+CREATE TABLE public.prediction_backtests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  held_out INTEGER NOT NULL,
+  k INTEGER NOT NULL,
+  training_papers INTEGER NOT NULL,
+  held_out_years TEXT[] NOT NULL DEFAULT '{}',
+  precision_at_k NUMERIC NOT NULL,
+  recall_at_k NUMERIC NOT NULL,
+  marks_covered NUMERIC,
+  predicted JSONB NOT NULL DEFAULT '[]'::jsonb,
+  missed JSONB NOT NULL DEFAULT '[]'::jsonb,
+  parameters JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT prediction_backtests_user_subject_key UNIQUE (user_id, subject),
+  CONSTRAINT prediction_backtests_sizes_check CHECK (held_out > 0 AND k > 0 AND training_papers > 0),
+  CONSTRAINT prediction_backtests_scores_check CHECK (
+    precision_at_k BETWEEN 0 AND 1 AND recall_at_k BETWEEN 0 AND 1 AND (marks_covered IS NULL OR marks_covered BETWEEN 0 AND 1)
+  )
+);
+
+ALTER TABLE public.prediction_backtests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own prediction_backtests" ON public.prediction_backtests FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own prediction_backtests" ON public.prediction_backtests FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own prediction_backtests" ON public.prediction_backtests FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own prediction_backtests" ON public.prediction_backtests FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_prediction_backtests_updated_at
+  BEFORE UPDATE ON public.prediction_backtests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,27 @@
+-- extract-document now only accepts the service-role key. The trigger reads
+-- the project URL and the key from Vault instead of hardcoding the URL:
+--   SELECT vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.request_document_extraction()
+RETURNS TRIGGER AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  -- The document stays pending rather than failing the upload
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE WARNING 'project_url or service_role_key missing from vault; % % not sent for extraction', TG_TABLE_NAME, NEW.id;
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/extract-document',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_role_key),
+    body := jsonb_build_object('table', TG_TABLE_NAME, 'id', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,19 @@
+-- cleanup-orphans now only accepts the service-role key. The nightly job sends
+-- it, reading it and the project URL from the same Vault secrets as the
+-- extraction trigger.
+SELECT cron.unschedule('cleanup-orphaned-uploads');
+
+SELECT cron.schedule(
+  'cleanup-orphaned-uploads',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cleanup-orphans',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
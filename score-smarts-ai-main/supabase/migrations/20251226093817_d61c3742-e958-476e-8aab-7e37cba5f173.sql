@@ -0,0 +1,14 @@
+-- Pages may only be attached to the inserting user's own syllabus or past paper
+DROP POLICY "Users can insert own document_pages" ON public.document_pages;
+
+CREATE POLICY "Users can insert own document_pages" ON public.document_pages FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    (syllabus_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.syllabus s WHERE s.id = syllabus_id AND s.user_id = auth.uid()
+    ))
+    OR (past_paper_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.past_papers p WHERE p.id = past_paper_id AND p.user_id = auth.uid()
+    ))
+  )
+);
@@ -0,0 +1,113 @@
+-- The topic analysis used to rewrite every analysis row on each Predictions
+-- page view, in separate requests. It now runs only when its inputs changed,
+-- and replaces the previous results in a single transaction.
+
+-- Fingerprint of what the analysis reads, recorded with each run
+CREATE TABLE public.topic_analysis_state (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  data_signature TEXT NOT NULL,
+  analyzed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.topic_analysis_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own topic_analysis_state" ON public.topic_analysis_state FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own topic_analysis_state" ON public.topic_analysis_state FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own topic_analysis_state" ON public.topic_analysis_state FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own topic_analysis_state" ON public.topic_analysis_state FOR DELETE USING (auth.uid() = user_id);
+
+-- Hash of the caller's papers, questions, confirmed syllabi and prediction settings
+CREATE OR REPLACE FUNCTION public.topic_analysis_signature()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT md5(concat_ws('|',
+    (SELECT string_agg(concat_ws(',', p.id, p.subject, p.year), ';' ORDER BY p.id)
+       FROM public.past_papers p WHERE p.user_id = auth.uid()),
+    (SELECT string_agg(md5(concat_ws(',', q.id, q.past_paper_id, q.text, q.marks)), ';' ORDER BY q.id)
+       FROM public.paper_questions q WHERE q.user_id = auth.uid()),
+    (SELECT string_agg(concat_ws(',', s.id, s.title, s.course_name), ';' ORDER BY s.id)
+       FROM public.syllabus s WHERE s.user_id = auth.uid() AND s.tree_status = 'confirmed'),
+    (SELECT string_agg(concat_ws(',', u.id, u.syllabus_id, u.title), ';' ORDER BY u.id)
+       FROM public.syllabus_units u WHERE u.user_id = auth.uid()),
+    (SELECT string_agg(concat_ws(',', t.id, t.unit_id, t.parent_id, t.title), ';' ORDER BY t.id)
+       FROM public.syllabus_topics t WHERE t.user_id = auth.uid()),
+    (SELECT string_agg(concat_ws(',', ps.subject, ps.updated_at), ';' ORDER BY ps.subject)
+       FROM public.prediction_settings ps WHERE ps.user_id = auth.uid())
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION public.topic_analysis_is_stale()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.topic_analysis_state a
+    WHERE a.user_id = auth.uid() AND a.data_signature = public.topic_analysis_signature()
+  );
+$$;
+
+-- Replaces the caller's question ↔ topic matches and analysis rows in one go.
+-- data_signature is the fingerprint read before the inputs were loaded, so a
+-- change made during the run still marks the analysis stale.
+CREATE OR REPLACE FUNCTION public.replace_topic_analysis(topic_matches JSONB, analyzed_topics JSONB, data_signature TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.question_topics WHERE user_id = auth.uid();
+
+  INSERT INTO public.question_topics (user_id, question_id, topic_id, score)
+  SELECT auth.uid(), m.question_id, m.topic_id, m.score
+  FROM jsonb_to_recordset(topic_matches) AS m(question_id UUID, topic_id UUID, score NUMERIC);
+
+  INSERT INTO public.important_topics (
+    user_id, subject, topic, syllabus_topic_id, frequency, probability,
+    year_counts, papers_asked, papers_total, score_factors, analyzed_at
+  )
+  SELECT
+    auth.uid(), t.subject, t.topic, t.syllabus_topic_id, t.frequency, t.probability,
+    t.year_counts, t.papers_asked, t.papers_total, t.score_factors, now()
+  FROM jsonb_to_recordset(analyzed_topics) AS t(
+    subject TEXT, topic TEXT, syllabus_topic_id UUID, frequency INTEGER, probability NUMERIC,
+    year_counts JSONB, papers_asked INTEGER, papers_total INTEGER, score_factors JSONB
+  )
+  ON CONFLICT (user_id, subject, topic) DO UPDATE SET
+    syllabus_topic_id = EXCLUDED.syllabus_topic_id,
+    frequency = EXCLUDED.frequency,
+    probability = EXCLUDED.probability,
+    year_counts = EXCLUDED.year_counts,
+    papers_asked = EXCLUDED.papers_asked,
+    papers_total = EXCLUDED.papers_total,
+    score_factors = EXCLUDED.score_factors,
+    analyzed_at = EXCLUDED.analyzed_at;
+
+  -- now() is fixed for the transaction, so only rows this run didn't write are older
+  DELETE FROM public.important_topics
+  WHERE user_id = auth.uid()
+    AND syllabus_topic_id IS NOT NULL
+    AND NOT pinned
+    AND analyzed_at < now();
+
+  INSERT INTO public.topic_analysis_state (user_id, data_signature, analyzed_at)
+  VALUES (auth.uid(), replace_topic_analysis.data_signature, now())
+  ON CONFLICT (user_id) DO UPDATE SET
+    data_signature = EXCLUDED.data_signature,
+    analyzed_at = EXCLUDED.analyzed_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_topic_analysis(JSONB, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.topic_analysis_signature() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.topic_analysis_is_stale() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.replace_topic_analysis(JSONB, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.topic_analysis_signature() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.topic_analysis_is_stale() TO authenticated;
@@ -0,0 +1,9 @@
+-- The backtest hides a subject's latest exam years rather than its latest
+-- papers: a year's papers share most of their topics, so predicting one from
+-- its siblings flattered the model. The setting is renamed to say so.
+ALTER TABLE public.prediction_backtests RENAME COLUMN held_out TO years_held_out;
+
+-- Reports stored before the change hid papers, not years. They are kept but
+-- flagged until the subject is backtested again.
+ALTER TABLE public.prediction_backtests ADD COLUMN stale BOOLEAN NOT NULL DEFAULT false;
+UPDATE public.prediction_backtests SET stale = true;
@@ -0,0 +1,10 @@
+-- Legacy .doc files can't be read anywhere, so the upload page refuses them
+-- (src/lib/fileValidation.ts); the bucket refuses them too.
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/markdown',
+  'text/plain'
+]
+WHERE id = 'syllabus';